@@ -6,7 +6,27 @@ import {Button} from "@/components/ui/button";
 import {RadioGroup, RadioGroupItem} from "@/components/ui/radio-group";
 import {Label} from "@/components/ui/label";
 import {Slider} from "@/components/ui/slider";
-import {findPath, SearchMethod, getSearchMethods, SEARCH_METHODS} from '@/pathfinder'; // Import the pathfinder
+import {Switch} from "@/components/ui/switch";
+import {Select, SelectContent, SelectItem, SelectTrigger, SelectValue} from "@/components/ui/select";
+import {Tooltip, TooltipContent, TooltipProvider, TooltipTrigger} from "@/components/ui/tooltip";
+import {searchSteps, SearchBudget, SearchMethod, SearchProgress, SearchResult, SearchStats, SearchStep, getSearchMethods, describeSearchMethod, DStarLite, DEFAULT_ASTAR_WEIGHT} from '@/pathfinder'; // Import the pathfinder
+import {searchAsync, searchTopologyAsync} from '@/pathfinder-async';
+import {createOnlineAgent, getOnlineAgents, OnlineAgent, DEFAULT_ONLINE_AGENT} from '@/online-agents';
+import {checkHeuristic, getHeuristics, trueDistances, HeuristicReport, DEFAULT_HEURISTIC} from '@/heuristics';
+import {planCooperativePaths, MultiAgentPlan} from '@/multi-agent';
+import {canMoveDiagonally, cellCost} from '@/graph';
+import {createPackedMaze, gridSize, wallsAt, WALL_EAST, WALL_NORTH, WALL_SOUTH, WALL_WEST, GridMaze, PackedMaze} from '@/packed-maze';
+import {getTopology, TopologyGraph, TopologyMaze, DEFAULT_TOPOLOGY} from '@/topology';
+import {generatePackedMaze, generateTopologyMaze, GeneratedMaze, DEFAULT_LOOPS, MAX_DIFFICULTY_ATTEMPTS} from '@/maze-generator';
+import {analyzeGraph, analyzeMaze, DIFFICULTY_BANDS, DifficultyBand, MazeAnalysis} from '@/maze-analysis';
+import {createMazeFile, mazeFileToGrid, mazeFileToTopologyMaze, parseMazeJson, readMazeFile, shareHash, MazeFile} from '@/maze-format';
+import {parseAsciiMaze, printAsciiMaze} from '@/maze-ascii';
+import {getMazeAlgorithms, GROWING_TREE_STRATEGIES, DEFAULT_MAZE_ALGORITHM} from '@/maze-algorithms';
+import {parseSeed} from '@/lib/random';
+import {useViewportSize} from '@/hooks/use-viewport-size';
+import {Input} from "@/components/ui/input";
+import {Textarea} from "@/components/ui/textarea";
+import {Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle} from "@/components/ui/dialog";
 import {
   Accordion,
   AccordionContent,
@@ -15,23 +35,67 @@ import {
 
 } from "@/components/ui/accordion"
 
-const CELL_SIZE = 20; // Size of each cell in pixels
-const MAZE_WIDTH = 25; // Number of cells wide
-const MAZE_HEIGHT = 20; // Number of cells high
-const PLAYER_SIZE = CELL_SIZE * 0.7; // Player size relative to cell size
-const EXIT_SIZE = CELL_SIZE * 0.8; // Reduced exit size
-const TRAIL_DOT_SIZE = CELL_SIZE * 0.15;
-
-
-// Define the MazeCell type
-type MazeCell = {
-  north: boolean;
-  east: boolean;
-  south: boolean;
-  west: boolean;
-  visited: boolean; // Keep visited for generation, pathfinder uses its own visited set
+const MIN_CELL_SIZE = 3; // Cell size bounds in pixels; the canvas picks the largest that fits the viewport
+const MAX_CELL_SIZE = 32;
+const VIEWPORT_MARGIN = 32; // Horizontal room left around the canvas
+const VIEWPORT_RESERVED_HEIGHT = 200; // Room kept for the timer and buttons under the canvas
+const REPORTED_VIOLATIONS = 3; // Violations listed under the heuristic check
+const PROGRESS_INTERVAL = 500; // Expansions between progress updates from the search worker
+const MAX_SIGHT_RADIUS = 5; // Largest sight radius offered for online agents
+const WALL_SHIFT_INTERVAL_MS = 3000; // How often walls move when shifting walls are on
+const WALLS_PER_SHIFT = 4; // Interior walls toggled each time
+const MIN_MAZE_SIZE = 5; // Smallest and largest maze side, in cells
+const MAX_MAZE_SIZE = 200;
+const PLAYER_SIZE = 0.7; // Player size relative to cell size
+const EXIT_SIZE = 0.8; // Reduced exit size
+const TRAIL_DOT_SIZE = 0.15;
+const CLOSED_CELL_COLOR = 'rgba(255, 165, 0, 0.25)'; // Cells the AI search already expanded
+const EXIT_WAVE_COLOR = 'rgba(50, 205, 50, 0.3)'; // Cells a bidirectional search expanded from the exit
+const FRONTIER_CELL_COLOR = 'rgba(30, 144, 255, 0.3)'; // Cells waiting in the stack/queue/open set
+const CURRENT_CELL_COLOR = 'rgba(220, 20, 60, 0.45)'; // Cell expanded in the latest step
+
+// Terrain types and the movement cost of entering them. Plain cells have no cost and count as 1.
+const TERRAINS = [
+  { name: 'Mud', cost: 3, color: 'rgba(139, 90, 43, 0.35)' },
+  { name: 'Water', cost: 5, color: 'rgba(30, 110, 200, 0.3)' },
+];
+const TERRAIN_DELAY_MS = 150; // Extra wait per point of cost above 1 before a player can move again
+
+// AI difficulty as a search budget. A search that runs out walks toward its most promising cell and
+// thinks again from there, with a doubled budget if it got nowhere.
+const THINKING_LIMITS: { id: string; label: string; budget?: SearchBudget }[] = [
+  { id: 'unlimited', label: 'Unlimited' },
+  { id: 'relaxed', label: 'Relaxed', budget: { maxExpansions: 300, maxMs: 50, maxNodes: 400 } },
+  { id: 'hasty', label: 'Hasty', budget: { maxExpansions: 100, maxMs: 20, maxNodes: 150 } },
+  { id: 'panicked', label: 'Panicked', budget: { maxExpansions: 30, maxMs: 5, maxNodes: 50 } },
+];
+
+// Diagonal keys on square cells, as [dx, dy]; Player 2 uses the numpad with Num Lock on or off
+const DIAGONAL_KEYS_PLAYER1: Record<string, [number, number]> = { q: [-1, -1], e: [1, -1], z: [-1, 1], c: [1, 1] };
+const DIAGONAL_KEYS_PLAYER2: Record<string, [number, number]> = {
+  '7': [-1, -1], '9': [1, -1], '1': [-1, 1], '3': [1, 1],
+  Home: [-1, -1], PageUp: [1, -1], End: [-1, 1], PageDown: [1, 1],
 };
 
+// Keyboard controls on non-square cells: key -> index into the topology's `directions`
+const SHAPE_CONTROLS: Record<string, { player1: Record<string, number>; player2: Record<string, number>; help: [string, string] }> = {
+  hex: {
+    player1: { d: 0, c: 1, z: 2, a: 3, q: 4, e: 5 },
+    // Numpad with Num Lock on or off
+    player2: {
+      '6': 0, '3': 1, '1': 2, '4': 3, '7': 4, '9': 5,
+      ArrowRight: 0, PageDown: 1, End: 2, ArrowLeft: 3, Home: 4, PageUp: 5,
+    },
+    help: ['Use Q/E/A/D/Z/C keys', 'Use Numpad 7/9/4/6/1/3'],
+  },
+  triangle: {
+    player1: { w: 0, d: 1, s: 2, a: 3 },
+    player2: { ArrowUp: 0, ArrowRight: 1, ArrowDown: 2, ArrowLeft: 3 },
+    help: ['Use WASD keys', 'Use Arrow Keys'],
+  },
+};
+
+
 // Define the Player type
 type Player = {
   x: number;
@@ -53,16 +117,96 @@ type Corner = {
   y: number;
 };
 
-type GameMode = 'playerVsPlayer' | 'playerVsAI' | null;
+// Per-match maze layout, chosen in the settings
+type MazeSettings = {
+  width: number; // Number of cells wide
+  height: number; // Number of cells high
+  loopPercent: number; // Extra openings per 100 cells, 0 to 100
+};
+
+const DEFAULT_MAZE_SETTINGS: MazeSettings = {width: 25, height: 20, loopPercent: DEFAULT_LOOPS * 100};
+
+// Files may hold mazes larger than the board plays, up to MAX_SAVED_MAZE_SIZE, and smaller than its size
+// controls go; those are turned away rather than shown with sliders that don't match them
+function boardSizeError(file: MazeFile): string | null {
+  const fits = (side: number) => side >= MIN_MAZE_SIZE && side <= MAX_MAZE_SIZE;
+  if (fits(file.width) && fits(file.height)) return null;
+  return `That maze is ${file.width} x ${file.height} cells; the board plays mazes from ${MIN_MAZE_SIZE} to ${MAX_MAZE_SIZE} cells a side.`;
+}
+
+// Settings matching a loaded maze's size and, when the file records them, how it was generated,
+// so Change Map and the seed keep working from there
+function settingsFromFile(file: MazeFile) {
+  const loops = file.generator?.loops;
+  return {
+    mazeSettings: {width: file.width, height: file.height, loopPercent: loops ? Math.round(loops * 100) : DEFAULT_MAZE_SETTINGS.loopPercent},
+    perfectMaze: loops === 0,
+    algorithm: file.generator?.algorithm ?? DEFAULT_MAZE_ALGORITHM,
+    growingTreeStrategy: file.generator?.growingTreeStrategy ?? GROWING_TREE_STRATEGIES[0].id,
+    terrain: file.generator?.terrain ?? file.costs !== undefined,
+  };
+}
+
+// Draws terrain and walls of a square-cell maze; reads MazeCell grids and packed wall bitmasks alike
+function drawSquareMaze(ctx: CanvasRenderingContext2D, maze: GridMaze, cellSize: number, wallWidth: number) {
+  const [width, height] = gridSize(maze);
+  ctx.fillStyle = 'white';
+  ctx.fillRect(0, 0, width * cellSize, height * cellSize);
+
+  for (let index = 0; index < width * height; index++) {
+    const terrain = TERRAINS.find(t => t.cost === cellCost(maze, index));
+    if (!terrain) continue;
+    ctx.fillStyle = terrain.color;
+    ctx.fillRect((index % width) * cellSize, Math.floor(index / width) * cellSize, cellSize, cellSize);
+  }
+
+  ctx.strokeStyle = 'hsl(var(--maze-wall))';
+  ctx.lineWidth = wallWidth;
+
+  // One path for every wall, so large mazes draw in a single stroke
+  ctx.beginPath();
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      const walls = wallsAt(maze, row * width + col);
+      if (walls & WALL_NORTH) { ctx.moveTo(col * cellSize, row * cellSize); ctx.lineTo((col + 1) * cellSize, row * cellSize); }
+      if (walls & WALL_EAST) { ctx.moveTo((col + 1) * cellSize, row * cellSize); ctx.lineTo((col + 1) * cellSize, (row + 1) * cellSize); }
+      if (walls & WALL_SOUTH) { ctx.moveTo((col + 1) * cellSize, (row + 1) * cellSize); ctx.lineTo(col * cellSize, (row + 1) * cellSize); }
+      if (walls & WALL_WEST) { ctx.moveTo(col * cellSize, (row + 1) * cellSize); ctx.lineTo(col * cellSize, row * cellSize); }
+    }
+  }
+  ctx.stroke();
+}
+
+type GameMode = 'playerVsPlayer' | 'playerVsAI' | 'aiVsAI' | null;
 
 interface GameBoardProps {
   gameMode: GameMode;
+  topology?: string; // Cell shape id from the topology registry, square by default
+  sharedMaze?: MazeFile; // Played instead of a generated maze when the board opens, e.g. from a share link
   onReturnToMenu: () => void;
 }
 
-const GameBoard: React.FC<GameBoardProps> = ({ gameMode, onReturnToMenu }) => {
+const GameBoard: React.FC<GameBoardProps> = ({ gameMode, topology = DEFAULT_TOPOLOGY, sharedMaze, onReturnToMenu }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [maze, setMaze] = useState<MazeCell[][]>([]);
+  const shape = getTopology(topology);
+  const squareGrid = shape.id === DEFAULT_TOPOLOGY; // Square mazes keep the packed grid every AI mode works on
+  const sharedSizeError = sharedMaze?.topology === shape.id ? boardSizeError(sharedMaze) : null;
+  const initialMaze = sharedMaze?.topology === shape.id && !sharedSizeError ? sharedMaze : null;
+  const initialSetup = initialMaze && settingsFromFile(initialMaze);
+  const [mazeSettings, setMazeSettings] = useState(initialSetup?.mazeSettings ?? DEFAULT_MAZE_SETTINGS);
+  const [settingsDraft, setSettingsDraft] = useState(initialSetup?.mazeSettings ?? DEFAULT_MAZE_SETTINGS); // Slider positions while dragging; the maze is regenerated on release
+  const [perfectMaze, setPerfectMaze] = useState(initialSetup?.perfectMaze ?? false); // No extra openings: exactly one route between any two cells
+  const viewport = useViewportSize();
+  const [unitWidth, unitHeight] = shape.canvasSize(mazeSettings.width, mazeSettings.height, 1);
+  const cellSize = Math.max(MIN_CELL_SIZE, Math.min(MAX_CELL_SIZE, Math.floor(Math.min(
+    (viewport.width - VIEWPORT_MARGIN) / unitWidth,
+    (viewport.height - VIEWPORT_RESERVED_HEIGHT) / unitHeight,
+  ))));
+  const wallWidth = cellSize >= 12 ? 2 : 1;
+  const [canvasWidth, canvasHeight] = shape.canvasSize(mazeSettings.width, mazeSettings.height, cellSize).map(Math.ceil);
+  const [maze, setMaze] = useState<PackedMaze>(() => createPackedMaze(0, 0)); // Square mazes, as wall bitmasks
+  const [cells, setCells] = useState<TopologyMaze>([]); // Hexagonal and triangular mazes
+  const mazeReady = squareGrid ? maze.width > 0 : cells.length > 0;
   const [player1, setPlayer1] = useState<Player>({x: 0, y: 0, color: 'teal', name: 'Player 1', pathTaken: []});
   const [player2, setPlayer2] = useState<Player>({x: 0, y: 0, color: '#4B0082', name: 'Player 2', pathTaken: []}); // Changed color to indigo
   const [exit, setExit] = useState<Exit>({x: 0, y: 0});
@@ -71,14 +215,62 @@ const GameBoard: React.FC<GameBoardProps> = ({ gameMode, onReturnToMenu }) => {
   const [mazeGenerated, setMazeGenerated] = useState(false);
   const [aiPath, setAIPath] = useState<[number, number][]>([]);
   const [currentAiPathIndex, setCurrentAiPathIndex] = useState(0);
+  const [aiSearchStats, setAISearchStats] = useState<SearchStats | null>(null);
+  const [aiSearchError, setAISearchError] = useState<string | null>(null); // Why the last search in the worker failed
+  const [watchSearch, setWatchSearch] = useState(false);
+  const [aiThinking, setAIThinking] = useState(false);
+  const [searchStep, setSearchStep] = useState<SearchStep | null>(null);
+  const searchStepperRef = useRef<{ steps: Generator<SearchStep, SearchResult> } | null>(null);
+  const [searchProgress, setSearchProgress] = useState<SearchProgress | null>(null);
+  const searchAbortRef = useRef<AbortController | null>(null); // Cancels the running worker search
+  const [aiKnowsMap, setAIKnowsMap] = useState(true);
+  const [onlineAgentId, setOnlineAgentId] = useState(DEFAULT_ONLINE_AGENT);
+  const [sightRadius, setSightRadius] = useState(1);
+  const onlineAgentRef = useRef<OnlineAgent | null>(null); // Set while an online agent is exploring
+  const [aiExploring, setAIExploring] = useState(false);
+  const [aiSeenCells, setAISeenCells] = useState(0);
+  const [shiftingWalls, setShiftingWalls] = useState(false);
+  const replannerRef = useRef<DStarLite | null>(null); // Set while the AI follows a D* Lite route
+  const [aiReplanning, setAIReplanning] = useState(false);
+  const [aiReplanExpanded, setAIReplanExpanded] = useState(0);
+  const [duelPlan, setDuelPlan] = useState<MultiAgentPlan | null>(null); // Both players' routes in AI vs AI
+  const [duelTick, setDuelTick] = useState(0);
   const [aiSpeed, setAISpeed] = useState(500);
-  const [searchMethod, setSearchMethod] = useState<SearchMethod>(SEARCH_METHODS[0]);
+  const [searchMethod, setSearchMethod] = useState<SearchMethod>(() => getSearchMethods()[0]);
+  const [astarWeight, setAStarWeight] = useState(DEFAULT_ASTAR_WEIGHT);
+  const [heuristicId, setHeuristicId] = useState(DEFAULT_HEURISTIC);
+  const [heuristicReport, setHeuristicReport] = useState<HeuristicReport | null>(null);
+  const [terrainEnabled, setTerrainEnabled] = useState(initialSetup?.terrain ?? false);
+  const [diagonalMoves, setDiagonalMoves] = useState(false);
+  const [thinkingLimitId, setThinkingLimitId] = useState(THINKING_LIMITS[0].id);
+  const [aiOutOfTime, setAIOutOfTime] = useState(false); // The AI is walking a partial route and will think again at its end
+  const thinkingScaleRef = useRef(1); // Budget multiplier, doubled each time a limited search makes no progress
+  const moveReadyAtRef = useRef<Record<string, number>>({}); // Player name -> time it may move again
+  const aiWaitTicksRef = useRef(0); // Ticks the AI still spends crossing its current cell
   const startCornerRef = useRef<Corner>({x: 1, y: 1});
+  const [seed, setSeed] = useState<number | null>(null); // Reproduces the current maze with the same settings
+  const [seedInput, setSeedInput] = useState('');
+  const [mazeAlgorithmId, setMazeAlgorithmId] = useState(initialSetup?.algorithm ?? DEFAULT_MAZE_ALGORITHM);
+  const [growingTreeStrategy, setGrowingTreeStrategy] = useState(initialSetup?.growingTreeStrategy ?? GROWING_TREE_STRATEGIES[0].id);
+  const [difficultyTarget, setDifficultyTarget] = useState<DifficultyBand | 'any'>('any');
+  const [mazeAnalysis, setMazeAnalysis] = useState<MazeAnalysis | null>(null);
+  const [difficultyMissed, setDifficultyMissed] = useState<DifficultyBand | null>(null); // Requested band no try landed in
+  const pendingMazeRef = useRef<MazeFile | null>(initialMaze); // Loaded by the next run of the maze effect instead of generating
+  const loadedWithRef = useRef<unknown>(null); // generateMaze as it was when a maze was loaded, so reruns with it keep the maze
+  const [mazeLoads, setMazeLoads] = useState(0);
+  const [mazeFileNote, setMazeFileNote] = useState<string | null>(sharedSizeError); // Outcome of the last share, save or load
+  const mazeFileInputRef = useRef<HTMLInputElement>(null);
+  const [asciiOpen, setAsciiOpen] = useState(false);
+  const [asciiText, setAsciiText] = useState('');
+  const [asciiError, setAsciiError] = useState<string | null>(null);
   const aiIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const [startTime, setStartTime] = useState<number | null>(null);
   const [elapsedTime, setElapsedTime] = useState<string>("00:00");
   const timerIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const methods = getSearchMethods();
+  const heuristics = getHeuristics();
+  const onlineAgents = getOnlineAgents();
+  const mazeAlgorithms = getMazeAlgorithms();
 
 
   const stopAI = useCallback(() => {
@@ -114,164 +306,246 @@ const GameBoard: React.FC<GameBoardProps> = ({ gameMode, onReturnToMenu }) => {
     }
   }, []);
 
-  const calculateAIPath = useCallback((startX: number, startY: number, endX: number, endY: number, method: SearchMethod, currentMaze: MazeCell[][]) => {
-      if (!currentMaze || currentMaze.length === 0 || !currentMaze[0] || gameMode !== 'playerVsAI') return;
-      const path = findPath(startX, startY, endX, endY, method, currentMaze);
-      setAIPath(path);
-      setCurrentAiPathIndex(0);
-  }, [gameMode]);
-
-
-  const generateMaze = useCallback(() => {
-    const initialMaze: MazeCell[][] = Array(MAZE_HEIGHT)
-      .fill(null)
-      .map(() =>
-        Array(MAZE_WIDTH)
-          .fill(null)
-          .map(() => ({
-            north: true,
-            east: true,
-            south: true,
-            west: true,
-            visited: false,
-          }))
-      );
-
-    let currentMaze = initialMaze;
-
-    function recursiveBacktracker(row: number, col: number) {
-      currentMaze[row][col].visited = true;
-      const directions = ['north', 'east', 'south', 'west'];
-      for (let i = directions.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
-        [directions[i], directions[j]] = [directions[j], directions[i]];
+  const applySearchResult = useCallback((result: SearchResult) => {
+      if (result.status === 'budget_exceeded') {
+          // Head for the most promising cell found in time; think longer next time if that is right here
+          const partialPath = result.partialPath ?? [];
+          thinkingScaleRef.current = partialPath.length > 0 ? 1 : thinkingScaleRef.current * 2;
+          setAIPath(partialPath);
+          setAIOutOfTime(true);
+      } else {
+          // Explore modes walk to each explored cell in turn, the others walk the route that was found
+          setAIPath(result.walk ?? result.path);
+          setAIOutOfTime(false);
       }
+      setAISearchStats(result.stats);
+      setCurrentAiPathIndex(0);
+  }, []);
 
-      for (const direction of directions) {
-        let nextRow = row;
-        let nextCol = col;
-        switch (direction) {
-          case 'north': nextRow = row - 1; break;
-          case 'east': nextCol = col + 1; break;
-          case 'south': nextRow = row + 1; break;
-          case 'west': nextCol = col - 1; break;
-        }
-        if (nextRow >= 0 && nextRow < MAZE_HEIGHT && nextCol >= 0 && nextCol < MAZE_WIDTH && !currentMaze[nextRow][nextCol].visited) {
-          switch (direction) {
-            case 'north': currentMaze[row][col].north = false; currentMaze[nextRow][nextCol].south = false; break;
-            case 'east': currentMaze[row][col].east = false; currentMaze[nextRow][nextCol].west = false; break;
-            case 'south': currentMaze[row][col].south = false; currentMaze[nextRow][nextCol].north = false; break;
-            case 'west': currentMaze[row][col].west = false; currentMaze[nextRow][nextCol].east = false; break;
-          }
-          recursiveBacktracker(nextRow, nextCol);
-        }
+  const cancelAISearch = useCallback(() => {
+      searchStepperRef.current = null;
+      searchAbortRef.current?.abort();
+      searchAbortRef.current = null;
+      setAIThinking(false);
+      setSearchStep(null);
+      setSearchProgress(null);
+      onlineAgentRef.current = null;
+      setAIExploring(false);
+      replannerRef.current = null;
+      setAIReplanning(false);
+      setDuelPlan(null);
+      setDuelTick(0);
+      setAIOutOfTime(false);
+      thinkingScaleRef.current = 1;
+      setAISearchError(null);
+  }, []);
+
+  const calculateAIPath = useCallback((startX: number, startY: number, endX: number, endY: number, method: SearchMethod, currentMaze: PackedMaze) => {
+      if (gameMode !== 'playerVsAI') return;
+      if (squareGrid ? currentMaze.width === 0 : cells.length === 0) return;
+      const limit = THINKING_LIMITS.find(option => option.id === thinkingLimitId)?.budget;
+      const scale = thinkingScaleRef.current;
+      const budget = limit && {
+          maxExpansions: (limit.maxExpansions ?? Infinity) * scale,
+          maxMs: (limit.maxMs ?? Infinity) * scale,
+          maxNodes: (limit.maxNodes ?? Infinity) * scale,
+      };
+      // Shaped mazes only get the full-knowledge search below, in the worker like square ones
+      if (squareGrid && !aiKnowsMap) {
+          // No route up front: the agent decides one move per AI tick from the walls it has seen
+          onlineAgentRef.current = createOnlineAgent(onlineAgentId, currentMaze, startX, startY, endX, endY, {sightRadius});
+          setAISeenCells(onlineAgentRef.current.seenCells);
+          setAIExploring(true);
+          return;
       }
-    }
+      if (squareGrid && shiftingWalls) {
+          // A fixed route goes stale when walls move, so keep one that D* Lite repairs as they do
+          replannerRef.current = new DStarLite(currentMaze, startX, startY, endX, endY);
+          setAIReplanExpanded(0);
+          setAIReplanning(true);
+          return;
+      }
+      if (squareGrid && watchSearch) {
+          // The AI loop advances the search one expansion per tick, then walks the result
+          searchStepperRef.current = { steps: searchSteps(startX, startY, endX, endY, method, currentMaze, {weight: astarWeight, heuristic: heuristicId, diagonal: diagonalMoves, budget}) };
+          setAIThinking(true);
+          return;
+      }
+      // Search in a worker so large mazes don't freeze the page; a newer search or a new map aborts it
+      searchAbortRef.current?.abort();
+      const controller = new AbortController();
+      searchAbortRef.current = controller;
+      setAIThinking(true);
+      setAISearchError(null);
+      const options = {weight: astarWeight, budget, signal: controller.signal, onProgress: setSearchProgress, progressInterval: PROGRESS_INTERVAL};
+      // The topology brings its own distance heuristic
+      (squareGrid
+          ? searchAsync(startX, startY, endX, endY, method, currentMaze, {...options, heuristic: heuristicId, diagonal: diagonalMoves})
+          : searchTopologyAsync(shape.id, startX, startY, endX, endY, method, cells, options))
+          .then(applySearchResult)
+          .catch(error => {
+              if (!controller.signal.aborted) setAISearchError((error as Error).message);
+          })
+          .finally(() => {
+              if (searchAbortRef.current !== controller) return;
+              searchAbortRef.current = null;
+              setAIThinking(false);
+              setSearchProgress(null);
+          });
+  }, [squareGrid, shape, cells, gameMode, aiKnowsMap, onlineAgentId, sightRadius, shiftingWalls, watchSearch, astarWeight, heuristicId, diagonalMoves, thinkingLimitId, applySearchResult]);
+
+  // Don't leave a worker running after the board is gone
+  useEffect(() => () => searchAbortRef.current?.abort(), []);
+
+  const advanceSearch = useCallback(() => {
+      const stepper = searchStepperRef.current;
+      if (!stepper) return;
+      const next = stepper.steps.next();
+      if (next.done) {
+          searchStepperRef.current = null;
+          setAIThinking(false);
+          applySearchResult(next.value);
+      } else {
+          setSearchStep(next.value);
+      }
+  }, [applySearchResult]);
 
-    const corners: Corner[] = [
-      {x: 1, y: 1}, {x: MAZE_WIDTH - 2, y: 1},
-      {x: 1, y: MAZE_HEIGHT - 2}, {x: MAZE_WIDTH - 2, y: MAZE_HEIGHT - 2},
-    ];
-    const startCornerIndex = Math.floor(Math.random() * corners.length);
-    const startCorner = corners[startCornerIndex];
-    startCornerRef.current = startCorner;
 
-    let endCorner: Corner;
-    if (startCorner.x === 1 && startCorner.y === 1) endCorner = {x: MAZE_WIDTH - 2, y: MAZE_HEIGHT - 2};
-    else if (startCorner.x === MAZE_WIDTH - 2 && startCorner.y === 1) endCorner = {x: 1, y: MAZE_HEIGHT - 2};
-    else if (startCorner.x === 1 && startCorner.y === MAZE_HEIGHT - 2) endCorner = {x: MAZE_WIDTH - 2, y: 1};
-    else endCorner = {x: 1, y: 1};
-
-    recursiveBacktracker(startCorner.y, startCorner.x);
-
-    const numWallsToRemove = Math.floor((MAZE_WIDTH * MAZE_HEIGHT) * 0.25);
-    let wallsRemoved = 0;
-    const attempts = numWallsToRemove * 10;
-    let attemptCount = 0;
-
-    while (wallsRemoved < numWallsToRemove && attemptCount < attempts) {
-      attemptCount++;
-      const r = Math.floor(Math.random() * (MAZE_HEIGHT - 2)) + 1;
-      const c = Math.floor(Math.random() * (MAZE_WIDTH - 2)) + 1;
-
-      const possibleWallsToRemove: ('north' | 'east' | 'south' | 'west')[] = [];
-      if (r > 0 && currentMaze[r]?.[c]?.north && currentMaze[r - 1]?.[c]) possibleWallsToRemove.push('north');
-      if (c < MAZE_WIDTH - 1 && currentMaze[r]?.[c]?.east && currentMaze[r]?.[c + 1]) possibleWallsToRemove.push('east');
-      if (r < MAZE_HEIGHT - 1 && currentMaze[r]?.[c]?.south && currentMaze[r + 1]?.[c]) possibleWallsToRemove.push('south');
-      if (c > 0 && currentMaze[r]?.[c]?.west && currentMaze[r]?.[c - 1]) possibleWallsToRemove.push('west');
-
-      if (possibleWallsToRemove.length > 0) {
-        const wallToRemove = possibleWallsToRemove[Math.floor(Math.random() * possibleWallsToRemove.length)];
-        let removed = false;
-        switch (wallToRemove) {
-          case 'north':
-            if (currentMaze[r][c].north && r > 0) {
-              currentMaze[r][c].north = false; currentMaze[r-1][c].south = false; removed = true;
-            }
-            break;
-          case 'east':
-            if (currentMaze[r][c].east && c < MAZE_WIDTH -1) {
-              currentMaze[r][c].east = false; currentMaze[r][c+1].west = false; removed = true;
-            }
-            break;
-          case 'south':
-            if (currentMaze[r][c].south && r < MAZE_HEIGHT -1) {
-              currentMaze[r][c].south = false; currentMaze[r+1][c].north = false; removed = true;
-            }
-            break;
-          case 'west':
-            if (currentMaze[r][c].west && c > 0) {
-              currentMaze[r][c].west = false; currentMaze[r][c-1].east = false; removed = true;
-            }
-            break;
-        }
-        if (removed) wallsRemoved++;
-      }
-    }
+  // Puts both players on the start of the maze just set and restarts the match
+  const startMaze = useCallback((start: [number, number], end: [number, number], mazeSeed: number | null, analysis: MazeAnalysis) => {
+    const startCorner: Corner = {x: start[0], y: start[1]};
+    const endCorner: Corner = {x: end[0], y: end[1]};
+    startCornerRef.current = startCorner;
+    setSeed(mazeSeed);
+    setSeedInput(mazeSeed === null ? '' : String(mazeSeed));
+    setMazeAnalysis(analysis);
 
     setPlayer1({x: startCorner.x, y: startCorner.y, color: 'teal', name: 'Player 1', pathTaken: [[startCorner.x, startCorner.y]]});
     setPlayer2({x: startCorner.x, y: startCorner.y, color: '#4B0082', name: 'Player 2', pathTaken: [[startCorner.x, startCorner.y]]}); // Changed color to indigo
     setExit({x: endCorner.x, y: endCorner.y});
 
-    setMaze(currentMaze);
     setMazeGenerated(true);
     setGameWon(false);
     setWinner(null);
     setAIPath([]);
+    setAISearchStats(null);
     setCurrentAiPathIndex(0);
+    cancelAISearch();
+    moveReadyAtRef.current = {};
+    aiWaitTicksRef.current = 0;
 
     startTimer();
     stopAI();
-  }, [stopAI, startTimer]);
+  }, [stopAI, startTimer, cancelAISearch]);
+
+
+  const generateMaze = useCallback((requestedSeed?: number) => {
+    const options = {
+      width: mazeSettings.width,
+      height: mazeSettings.height,
+      seed: requestedSeed,
+      loops: perfectMaze ? 0 : mazeSettings.loopPercent / 100,
+      terrainCosts: terrainEnabled ? TERRAINS.map(t => t.cost) : [],
+      algorithm: mazeAlgorithmId,
+      growingTreeStrategy,
+      // A requested seed replays one exact maze, so no other seeds are tried
+      difficulty: requestedSeed === undefined && difficultyTarget !== 'any' ? difficultyTarget : undefined,
+    };
+    let generated: Omit<GeneratedMaze, 'maze'>;
+    let analysis: MazeAnalysis;
+    if (squareGrid) {
+      const square = generatePackedMaze(options);
+      setMaze(square.maze);
+      generated = square;
+      analysis = square.analysis ?? analyzeMaze(square.maze, square.start, square.exit);
+    } else {
+      const shaped = generateTopologyMaze(shape, options);
+      setCells(shaped.maze);
+      generated = shaped;
+      analysis = shaped.analysis ?? analyzeGraph(new TopologyGraph(shape, shaped.maze), shaped.start, shaped.exit);
+    }
+    setDifficultyMissed(options.difficulty && analysis.difficulty !== options.difficulty ? options.difficulty : null);
+    startMaze(generated.start, generated.exit, generated.seed, analysis);
+  }, [startMaze, terrainEnabled, mazeAlgorithmId, growingTreeStrategy, difficultyTarget, mazeSettings, perfectMaze, squareGrid, shape]);
+
+
+  const applyMazeFile = useCallback((file: MazeFile) => {
+    let analysis: MazeAnalysis;
+    if (squareGrid) {
+      const square = mazeFileToGrid(file);
+      setMaze(square);
+      analysis = analyzeMaze(square, file.start, file.exit);
+    } else {
+      const shaped = mazeFileToTopologyMaze(file);
+      setCells(shaped);
+      analysis = analyzeGraph(new TopologyGraph(shape, shaped), file.start, file.exit);
+    }
+    setDifficultyMissed(null);
+    startMaze(file.start, file.exit, file.seed ?? null, analysis);
+  }, [startMaze, squareGrid, shape]);
 
 
+  // Generates a maze whenever the settings change, unless one is waiting to be loaded
   useEffect(() => {
-      generateMaze();
-  }, [generateMaze]);
+      const pending = pendingMazeRef.current;
+      if (pending) {
+          pendingMazeRef.current = null;
+          loadedWithRef.current = generateMaze;
+          applyMazeFile(pending);
+      } else if (loadedWithRef.current !== generateMaze) {
+          generateMaze();
+      }
+  }, [generateMaze, applyMazeFile, mazeLoads]);
 
 
   const drawMaze = useCallback((ctx: CanvasRenderingContext2D) => {
-    if (!maze || maze.length === 0 || !maze[0] || !mazeGenerated) return;
+    if (maze.width === 0 || !mazeGenerated) return;
+    drawSquareMaze(ctx, maze, cellSize, wallWidth);
+  }, [maze, mazeGenerated, cellSize, wallWidth]);
 
+  // Hexagonal and triangular cells: terrain as filled outlines, then one segment per closed wall
+  const drawShapedMaze = useCallback((ctx: CanvasRenderingContext2D) => {
     ctx.fillStyle = 'white';
-    ctx.fillRect(0, 0, MAZE_WIDTH * CELL_SIZE, MAZE_HEIGHT * CELL_SIZE);
+    ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+
+    cells.forEach((row, y) => row.forEach((cell, x) => {
+      const terrain = TERRAINS.find(t => t.cost === cell.cost);
+      if (!terrain) return;
+      const outline = shape.outline(x, y, cellSize);
+      ctx.fillStyle = terrain.color;
+      ctx.beginPath();
+      outline.forEach(([px, py], i) => (i === 0 ? ctx.moveTo(px, py) : ctx.lineTo(px, py)));
+      ctx.closePath();
+      ctx.fill();
+    }));
+
     ctx.strokeStyle = 'hsl(var(--maze-wall))';
-    ctx.lineWidth = 2;
-
-    for (let row = 0; row < MAZE_HEIGHT; row++) {
-      for (let col = 0; col < MAZE_WIDTH; col++) {
-        if (!maze[row]?.[col]) continue;
-        const cell = maze[row][col];
-
-        ctx.beginPath();
-        if (cell.north) { ctx.moveTo(col * CELL_SIZE, row * CELL_SIZE); ctx.lineTo((col + 1) * CELL_SIZE, row * CELL_SIZE); }
-        if (cell.east) { ctx.moveTo((col + 1) * CELL_SIZE, row * CELL_SIZE); ctx.lineTo((col + 1) * CELL_SIZE, (row + 1) * CELL_SIZE); }
-        if (cell.south) { ctx.moveTo((col + 1) * CELL_SIZE, (row + 1) * CELL_SIZE); ctx.lineTo(col * CELL_SIZE, (row + 1) * CELL_SIZE); }
-        if (cell.west) { ctx.moveTo(col * CELL_SIZE, (row + 1) * CELL_SIZE); ctx.lineTo(col * CELL_SIZE, row * CELL_SIZE); }
-        ctx.stroke();
-      }
-    }
-  }, [maze, mazeGenerated]);
+    ctx.lineWidth = wallWidth;
+    ctx.beginPath();
+    cells.forEach((row, y) => row.forEach((cell, x) => {
+      cell.walls.forEach((closed, d) => {
+        const side = closed && shape.side(x, y, d, cellSize);
+        if (!side) return;
+        ctx.moveTo(side[0][0], side[0][1]);
+        ctx.lineTo(side[1][0], side[1][1]);
+      });
+    }));
+    ctx.stroke();
+  }, [cells, shape, canvasWidth, canvasHeight, cellSize, wallWidth]);
+
+  const drawSearchStep = useCallback((ctx: CanvasRenderingContext2D, step: SearchStep) => {
+    const inset = cellSize >= 6 ? 1 : 0;
+    const fillCell = (x: number, y: number) => ctx.fillRect(x * cellSize + inset, y * cellSize + inset, cellSize - 2 * inset, cellSize - 2 * inset);
+
+    step.closed.forEach(([x, y], i) => {
+      ctx.fillStyle = step.closedSides?.[i] === 'exit' ? EXIT_WAVE_COLOR : CLOSED_CELL_COLOR;
+      fillCell(x, y);
+    });
+    ctx.fillStyle = FRONTIER_CELL_COLOR;
+    step.frontier.forEach(({x, y}) => fillCell(x, y));
+    ctx.fillStyle = CURRENT_CELL_COLOR;
+    fillCell(step.current[0], step.current[1]);
+  }, [cellSize]);
 
   const drawPlayer = useCallback((ctx: CanvasRenderingContext2D, player: Player) => {
     if (player.color === 'teal') {
@@ -283,37 +557,43 @@ const GameBoard: React.FC<GameBoardProps> = ({ gameMode, onReturnToMenu }) => {
     }
 
     player.pathTaken.forEach(([px, py]) => {
+      const [cx, cy] = shape.center(px, py, cellSize);
       ctx.beginPath();
-      ctx.arc((px + 0.5) * CELL_SIZE, (py + 0.5) * CELL_SIZE, TRAIL_DOT_SIZE / 2, 0, 2 * Math.PI);
+      ctx.arc(cx, cy, TRAIL_DOT_SIZE * cellSize / 2, 0, 2 * Math.PI);
       ctx.fill();
     });
 
+    const [cx, cy] = shape.center(player.x, player.y, cellSize);
     ctx.fillStyle = player.color;
     ctx.beginPath();
-    ctx.arc((player.x + 0.5) * CELL_SIZE, (player.y + 0.5) * CELL_SIZE, PLAYER_SIZE / 2, 0, 2 * Math.PI);
+    ctx.arc(cx, cy, PLAYER_SIZE * cellSize / 2, 0, 2 * Math.PI);
     ctx.fill();
-  }, []);
+  }, [shape, cellSize]);
 
   const drawExit = useCallback((ctx: CanvasRenderingContext2D) => {
     if (exit && typeof exit.x === 'number' && typeof exit.y === 'number') {
+        const [cx, cy] = shape.center(exit.x, exit.y, cellSize);
+        const size = EXIT_SIZE * cellSize;
         ctx.fillStyle = 'hsl(var(--primary))';
-        ctx.fillRect(exit.x * CELL_SIZE + (CELL_SIZE - EXIT_SIZE) / 2, exit.y * CELL_SIZE + (CELL_SIZE - EXIT_SIZE) / 2, EXIT_SIZE, EXIT_SIZE);
+        ctx.fillRect(cx - size / 2, cy - size / 2, size, size);
     }
-  }, [exit]);
+  }, [exit, shape, cellSize]);
 
   useEffect(() => {
     const canvas = canvasRef.current;
-    if (!canvas || !mazeGenerated || !maze || maze.length === 0 || !maze[0]) return;
+    if (!canvas || !mazeGenerated || !mazeReady) return;
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
     ctx.clearRect(0, 0, canvas.width, canvas.height);
-    drawMaze(ctx);
+    if (squareGrid) drawMaze(ctx);
+    else drawShapedMaze(ctx);
+    if (searchStep) drawSearchStep(ctx, searchStep);
     if (player1) drawPlayer(ctx, player1);
     if (player2) drawPlayer(ctx, player2);
     drawExit(ctx);
 
-  }, [maze, player1, player2, exit, mazeGenerated, drawMaze, drawPlayer, drawExit]);
+  }, [maze, player1, player2, exit, mazeGenerated, mazeReady, squareGrid, searchStep, drawMaze, drawShapedMaze, drawSearchStep, drawPlayer, drawExit]);
 
 
   const movePlayer = useCallback((
@@ -322,22 +602,29 @@ const GameBoard: React.FC<GameBoardProps> = ({ gameMode, onReturnToMenu }) => {
     dx: number,
     dy: number
   ) => {
-    if (!maze || maze.length === 0 || gameWon || !mazeGenerated || !player) return;
+    if (maze.width === 0 || gameWon || !mazeGenerated || !player) return;
+    // Still wading through mud or water
+    if (Date.now() < (moveReadyAtRef.current[player.name] ?? 0)) return;
 
     const newRow = player.y + dy;
     const newCol = player.x + dx;
 
-    if (newRow >= 0 && newRow < MAZE_HEIGHT && newCol >= 0 && newCol < MAZE_WIDTH) {
-      const cell = maze[player.y]?.[player.x];
-      if (!cell) return;
+    if (newRow >= 0 && newRow < maze.height && newCol >= 0 && newCol < maze.width) {
+      const walls = wallsAt(maze, player.y * maze.width + player.x);
 
       let canMove = true;
-      if (dy === -1 && cell.north) canMove = false;
-      if (dy === 1 && cell.south) canMove = false;
-      if (dx === -1 && cell.west) canMove = false;
-      if (dx === 1 && cell.east) canMove = false;
+      if (dx !== 0 && dy !== 0) {
+        // Diagonal steps squeeze past a corner, so every wall meeting there must be down
+        canMove = diagonalMoves && canMoveDiagonally(maze, player.x, player.y, dx, dy);
+      }
+      if (dy === -1 && walls & WALL_NORTH) canMove = false;
+      if (dy === 1 && walls & WALL_SOUTH) canMove = false;
+      if (dx === -1 && walls & WALL_WEST) canMove = false;
+      if (dx === 1 && walls & WALL_EAST) canMove = false;
 
       if (canMove) {
+        const cost = cellCost(maze, newRow * maze.width + newCol);
+        moveReadyAtRef.current[player.name] = Date.now() + (cost - 1) * TERRAIN_DELAY_MS;
         setPlayer(prevPlayer => ({
             ...prevPlayer,
             x: newCol,
@@ -346,17 +633,58 @@ const GameBoard: React.FC<GameBoardProps> = ({ gameMode, onReturnToMenu }) => {
         }));
       }
     }
-  }, [maze, gameWon, mazeGenerated]);
+  }, [maze, gameWon, mazeGenerated, diagonalMoves]);
+
+
+  // Moves through side `direction` of the player's hexagon or triangle, if that wall is open
+  const moveShaped = useCallback((
+    player: Player,
+    setPlayer: React.Dispatch<React.SetStateAction<Player>>,
+    direction: number
+  ) => {
+    if (cells.length === 0 || gameWon || !mazeGenerated || !player) return;
+    if (Date.now() < (moveReadyAtRef.current[player.name] ?? 0)) return;
+    // Outer walls are never opened, so an open side always leads to a cell inside the grid
+    if (cells[player.y]?.[player.x]?.walls[direction] !== false) return;
+    const next = shape.neighbour(player.x, player.y, direction);
+    if (!next) return;
+    const [newCol, newRow] = next;
+    const cost = cells[newRow]?.[newCol]?.cost ?? 1;
+    moveReadyAtRef.current[player.name] = Date.now() + (cost - 1) * TERRAIN_DELAY_MS;
+    setPlayer(prevPlayer => ({
+        ...prevPlayer,
+        x: newCol,
+        y: newRow,
+        pathTaken: [...prevPlayer.pathTaken, [newCol, newRow]]
+    }));
+  }, [cells, shape, gameWon, mazeGenerated]);
 
 
   const handleKeyDown = useCallback((event: KeyboardEvent) => {
     if (gameWon || !mazeGenerated) return;
 
-    if (player1) {
+    if (!squareGrid) {
+      const controls = SHAPE_CONTROLS[shape.id];
+      if (!controls) return;
+      if (gameMode !== 'aiVsAI' && player1 && event.key in controls.player1) {
+        moveShaped(player1, setPlayer1, controls.player1[event.key]);
+      }
+      if (gameMode === 'playerVsPlayer' && player2 && event.key in controls.player2) {
+        event.preventDefault(); // Arrow and paging keys would scroll the page
+        moveShaped(player2, setPlayer2, controls.player2[event.key]);
+      }
+      return;
+    }
+
+    if (gameMode !== 'aiVsAI' && player1) {
         if (event.key === 'w') movePlayer(player1, setPlayer1, 0, -1);
         if (event.key === 's') movePlayer(player1, setPlayer1, 0, 1);
         if (event.key === 'a') movePlayer(player1, setPlayer1, -1, 0);
         if (event.key === 'd') movePlayer(player1, setPlayer1, 1, 0);
+        if (diagonalMoves && event.key in DIAGONAL_KEYS_PLAYER1) {
+          const [dx, dy] = DIAGONAL_KEYS_PLAYER1[event.key];
+          movePlayer(player1, setPlayer1, dx, dy);
+        }
     }
 
 
@@ -365,8 +693,13 @@ const GameBoard: React.FC<GameBoardProps> = ({ gameMode, onReturnToMenu }) => {
       if (event.key === 'ArrowDown') movePlayer(player2, setPlayer2, 0, 1);
       if (event.key === 'ArrowLeft') movePlayer(player2, setPlayer2, -1, 0);
       if (event.key === 'ArrowRight') movePlayer(player2, setPlayer2, 1, 0);
+      if (diagonalMoves && event.key in DIAGONAL_KEYS_PLAYER2) {
+        event.preventDefault(); // Paging keys would scroll the page
+        const [dx, dy] = DIAGONAL_KEYS_PLAYER2[event.key];
+        movePlayer(player2, setPlayer2, dx, dy);
+      }
     }
-  }, [player1, player2, movePlayer, gameWon, gameMode, mazeGenerated]);
+  }, [player1, player2, movePlayer, moveShaped, squareGrid, shape, diagonalMoves, gameWon, gameMode, mazeGenerated]);
 
   useEffect(() => {
     window.addEventListener('keydown', handleKeyDown);
@@ -381,7 +714,13 @@ const GameBoard: React.FC<GameBoardProps> = ({ gameMode, onReturnToMenu }) => {
           stopAI();
           return;
       }
+      // Still crossing a costly cell
+      if (aiWaitTicksRef.current > 0) {
+          aiWaitTicksRef.current--;
+          return;
+      }
       const [nextX, nextY] = aiPath[currentAiPathIndex];
+      aiWaitTicksRef.current = Math.ceil(squareGrid ? cellCost(maze, nextY * maze.width + nextX) : cells[nextY]?.[nextX]?.cost ?? 1) - 1;
       setPlayer2(prev => ({
           ...prev,
           x: nextX,
@@ -389,19 +728,149 @@ const GameBoard: React.FC<GameBoardProps> = ({ gameMode, onReturnToMenu }) => {
           pathTaken: [...prev.pathTaken, [nextX, nextY]]
         }));
       setCurrentAiPathIndex(prevIndex => prevIndex + 1);
-  }, [aiPath, currentAiPathIndex, gameWon, stopAI, mazeGenerated]);
+  }, [aiPath, currentAiPathIndex, gameWon, stopAI, mazeGenerated, maze, cells, squareGrid]);
+
+  // Online agents choose each move from what they have seen so far
+  const agentMove = useCallback(() => {
+      const agent = onlineAgentRef.current;
+      if (!agent || gameWon || !mazeGenerated) {
+          stopAI();
+          return;
+      }
+      if (aiWaitTicksRef.current > 0) {
+          aiWaitTicksRef.current--;
+          return;
+      }
+      const next = agent.step();
+      setAISeenCells(agent.seenCells);
+      if (!next) {
+          onlineAgentRef.current = null;
+          setAIExploring(false);
+          return;
+      }
+      const [nextX, nextY] = next;
+      aiWaitTicksRef.current = Math.ceil(cellCost(maze, nextY * maze.width + nextX)) - 1;
+      setPlayer2(prev => ({
+          ...prev,
+          x: nextX,
+          y: nextY,
+          pathTaken: [...prev.pathTaken, [nextX, nextY]]
+        }));
+  }, [gameWon, mazeGenerated, stopAI, maze]);
+
+  // Follows the D* Lite route one cell at a time; the route is repaired whenever walls shift
+  const replanMove = useCallback(() => {
+      const replanner = replannerRef.current;
+      if (!replanner || gameWon || !mazeGenerated) {
+          stopAI();
+          return;
+      }
+      if (aiWaitTicksRef.current > 0) {
+          aiWaitTicksRef.current--;
+          return;
+      }
+      const next = replanner.nextStep();
+      setAIReplanExpanded(replanner.expanded);
+      if (!next) return;
+      const [nextX, nextY] = next;
+      replanner.moveTo(nextX, nextY);
+      aiWaitTicksRef.current = Math.ceil(cellCost(maze, nextY * maze.width + nextX)) - 1;
+      setPlayer2(prev => ({
+          ...prev,
+          x: nextX,
+          y: nextY,
+          pathTaken: [...prev.pathTaken, [nextX, nextY]]
+        }));
+  }, [gameWon, mazeGenerated, stopAI, maze]);
+
+  // AI vs AI: both players take their next planned step together; the plan already includes waits
+  const duelMove = useCallback(() => {
+      if (!duelPlan || gameWon || !mazeGenerated) {
+          stopAI();
+          return;
+      }
+      const [route1, route2] = duelPlan.paths;
+      const stepTo = (route: [number, number][]) => (prev: Player): Player => {
+          if (duelTick >= route.length) return prev;
+          const [nextX, nextY] = route[duelTick];
+          return { ...prev, x: nextX, y: nextY, pathTaken: [...prev.pathTaken, [nextX, nextY]] };
+      };
+      setPlayer1(stepTo(route1));
+      setPlayer2(stepTo(route2));
+      setDuelTick(tick => tick + 1);
+  }, [duelPlan, duelTick, gameWon, mazeGenerated, stopAI]);
+
+  // One AI tick: a search expansion while the AI is still thinking, otherwise one move
+  const aiTick = useCallback(() => {
+      if (searchStepperRef.current) advanceSearch();
+      else if (onlineAgentRef.current) agentMove();
+      else if (replannerRef.current) replanMove();
+      else aiMove();
+  }, [advanceSearch, agentMove, replanMove, aiMove]);
+
+  // Toggles a few random interior walls, never leaving any cell cut off from the exit
+  const shiftWalls = useCallback(() => {
+      if (maze.width === 0) return;
+      const {width, height} = maze;
+      const shifted = {...maze, walls: maze.walls.slice()};
+      const walls = shifted.walls;
+      const changed: [number, number, number, number][] = [];
+      const setWall = (x: number, y: number, eastSide: boolean, closed: boolean) => {
+          const index = y * width + x;
+          const [next, wall, opposite] = eastSide ? [index + 1, WALL_EAST, WALL_WEST] : [index + width, WALL_SOUTH, WALL_NORTH];
+          walls[index] = closed ? walls[index] | wall : walls[index] & ~wall;
+          walls[next] = closed ? walls[next] | opposite : walls[next] & ~opposite;
+      };
+      for (let i = 0; i < WALLS_PER_SHIFT; i++) {
+          const eastSide = Math.random() < 0.5;
+          const x = Math.floor(Math.random() * (eastSide ? width - 1 : width));
+          const y = Math.floor(Math.random() * (eastSide ? height : height - 1));
+          const closing = !(walls[y * width + x] & (eastSide ? WALL_EAST : WALL_SOUTH));
+          setWall(x, y, eastSide, closing);
+          if (closing && !trueDistances(shifted, exit.x, exit.y).every(Number.isFinite)) {
+              setWall(x, y, eastSide, false);
+              continue;
+          }
+          changed.push([x, y, eastSide ? x + 1 : x, eastSide ? y : y + 1]);
+      }
+      // The walls change on a copy; the replanner and online agent switch to it before it is drawn
+      const replanner = replannerRef.current;
+      if (replanner) {
+          replanner.setMaze(shifted);
+          changed.forEach(([x, y, nx, ny]) => replanner.wallChanged(x, y, nx, ny));
+      }
+      onlineAgentRef.current?.setMaze(shifted);
+      setMaze(shifted);
+  }, [maze, exit]);
+
+  useEffect(() => {
+      // A cooperative plan is fixed in advance, so walls stay put in AI vs AI
+      if (!shiftingWalls || gameMode === 'aiVsAI' || !mazeGenerated || gameWon) return;
+      const interval = setInterval(shiftWalls, WALL_SHIFT_INTERVAL_MS);
+      return () => clearInterval(interval);
+  }, [shiftingWalls, gameMode, mazeGenerated, gameWon, shiftWalls]);
 
 
   useEffect(() => {
       stopAI();
 
-      if (gameMode === 'playerVsAI' && mazeGenerated && !gameWon && aiPath.length > 0 && currentAiPathIndex < aiPath.length) {
-          aiIntervalRef.current = setInterval(aiMove, aiSpeed);
+      if (gameMode === 'playerVsAI' && mazeGenerated && !gameWon && (aiThinking || aiExploring || aiReplanning || (aiPath.length > 0 && currentAiPathIndex < aiPath.length))) {
+          aiIntervalRef.current = setInterval(aiTick, aiSpeed);
+      }
+      if (gameMode === 'aiVsAI' && mazeGenerated && !gameWon && duelPlan?.paths.some(route => duelTick < route.length)) {
+          aiIntervalRef.current = setInterval(duelMove, aiSpeed);
       }
       return () => {
           stopAI();
       };
-  }, [gameMode, mazeGenerated, gameWon, aiPath, aiSpeed, aiMove, stopAI, currentAiPathIndex]);
+  }, [gameMode, mazeGenerated, gameWon, aiPath, aiSpeed, aiTick, aiThinking, aiExploring, aiReplanning, stopAI, currentAiPathIndex, duelPlan, duelTick, duelMove]);
+
+
+  // Out of thinking time: once the partial route is walked, think again from where it ended
+  useEffect(() => {
+      if (!aiOutOfTime || aiThinking || gameWon || currentAiPathIndex < aiPath.length) return;
+      calculateAIPath(player2.x, player2.y, exit.x, exit.y, searchMethod, maze);
+  }, [aiOutOfTime, aiThinking, gameWon, currentAiPathIndex, aiPath, player2.x, player2.y, exit, searchMethod, maze, calculateAIPath]);
 
 
   const resetPlayerPosition = useCallback(() => {
@@ -413,18 +882,27 @@ const GameBoard: React.FC<GameBoardProps> = ({ gameMode, onReturnToMenu }) => {
     setPlayer2(prev => ({ ...prev, x: start.x, y: start.y, pathTaken: [[start.x, start.y]] }));
 
     setAIPath([]);
+    setAISearchStats(null);
     setCurrentAiPathIndex(0);
+    cancelAISearch();
+    moveReadyAtRef.current = {};
+    aiWaitTicksRef.current = 0;
 
     setGameWon(false);
     setWinner(null);
     startTimer();
 
-    if (gameMode === 'playerVsAI' && mazeGenerated && maze && maze.length > 0 && maze[0] && exit && Object.keys(exit).length > 0) {
+    if (gameMode === 'playerVsAI' && mazeGenerated && mazeReady && exit && Object.keys(exit).length > 0) {
         if (typeof start.x === 'number' && typeof start.y === 'number') {
             calculateAIPath(start.x, start.y, exit.x, exit.y, searchMethod, maze);
         }
     }
-  }, [gameMode, mazeGenerated, maze, stopAI, stopTimer, startTimer, exit, searchMethod, calculateAIPath]);
+    if (gameMode === 'aiVsAI' && squareGrid && mazeGenerated && mazeReady) {
+        // Both race from the same corner to the same exit; whoever arrives first leaves the maze
+        const race = {start: [start.x, start.y] as [number, number], goal: [exit.x, exit.y] as [number, number]};
+        setDuelPlan(planCooperativePaths(maze, [race, race], {leaveAtGoal: true}));
+    }
+  }, [gameMode, squareGrid, mazeGenerated, mazeReady, maze, stopAI, stopTimer, startTimer, exit, searchMethod, calculateAIPath, cancelAISearch]);
 
 
   const changeMap = useCallback(() => {
@@ -434,6 +912,111 @@ const GameBoard: React.FC<GameBoardProps> = ({ gameMode, onReturnToMenu }) => {
     generateMaze();
   }, [generateMaze, stopAI, stopTimer]);
 
+  // Matches the settings to the file, which regenerates nothing: the maze effect loads the file instead
+  const loadMazeFile = useCallback((file: MazeFile) => {
+    const setup = settingsFromFile(file);
+    stopAI();
+    stopTimer();
+    setMazeGenerated(false);
+    setMazeSettings(setup.mazeSettings);
+    setSettingsDraft(setup.mazeSettings);
+    setPerfectMaze(setup.perfectMaze);
+    setMazeAlgorithmId(setup.algorithm);
+    setGrowingTreeStrategy(setup.growingTreeStrategy);
+    setTerrainEnabled(setup.terrain);
+    pendingMazeRef.current = file;
+    setMazeLoads(count => count + 1);
+  }, [stopAI, stopTimer]);
+
+  const currentMazeFile = useCallback(() => createMazeFile(shape, squareGrid ? maze : cells, {
+    start: [startCornerRef.current.x, startCornerRef.current.y],
+    exit: [exit.x, exit.y],
+    // Mazes loaded from a file without a seed were not generated with these settings
+    ...(seed !== null && {
+      seed,
+      generator: {
+        algorithm: mazeAlgorithmId,
+        ...(mazeAlgorithmId === 'growing-tree' && {growingTreeStrategy}),
+        loops: perfectMaze ? 0 : mazeSettings.loopPercent / 100,
+        terrain: terrainEnabled,
+      },
+    }),
+  }), [shape, squareGrid, maze, cells, exit, seed, mazeAlgorithmId, growingTreeStrategy, perfectMaze, mazeSettings, terrainEnabled]);
+
+  const shareMaze = useCallback(() => {
+    const url = `${window.location.origin}${window.location.pathname}${shareHash(currentMazeFile())}`;
+    window.history.replaceState(null, '', url);
+    navigator.clipboard.writeText(url).then(
+      () => setMazeFileNote('Link copied. Anyone opening it plays this maze.'),
+      () => setMazeFileNote('Copy the link from the address bar to share this maze.'),
+    );
+  }, [currentMazeFile]);
+
+  const saveMazeFile = useCallback(() => {
+    const blob = new Blob([JSON.stringify(currentMazeFile(), null, 2)], {type: 'application/json'});
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = seed === null ? 'maze.json' : `maze-${seed}.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  }, [currentMazeFile, seed]);
+
+  const openMazeFile = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const chosen = event.target.files?.[0];
+    event.target.value = ''; // Lets the same file be picked again
+    if (!chosen) return;
+    try {
+      const file = parseMazeJson(await chosen.text());
+      if (file.topology !== shape.id) {
+        setMazeFileNote(`That maze has ${getTopology(file.topology).label.toLowerCase()} cells; pick that shape from the menu to play it.`);
+        return;
+      }
+      const sizeError = boardSizeError(file);
+      if (sizeError) {
+        setMazeFileNote(sizeError);
+        return;
+      }
+      loadMazeFile(file);
+      setMazeFileNote(`Loaded ${chosen.name}.`);
+    } catch (error) {
+      setMazeFileNote((error as Error).message);
+    }
+  }, [shape, loadMazeFile]);
+
+  // Opens the ASCII dialog on the current maze, with the AI's remaining route drawn when it has one
+  const openAsciiDialog = useCallback(() => {
+    const route: [number, number][] = aiPath.length > currentAiPathIndex ? [[player2.x, player2.y], ...aiPath.slice(currentAiPathIndex)] : [];
+    setAsciiText(printAsciiMaze(maze, {start: [startCornerRef.current.x, startCornerRef.current.y], exit: [exit.x, exit.y], path: route}));
+    setAsciiError(null);
+    setAsciiOpen(true);
+  }, [maze, exit, aiPath, currentAiPathIndex, player2]);
+
+  const loadAsciiMaze = useCallback(() => {
+    try {
+      const ascii = parseAsciiMaze(asciiText);
+      const file = readMazeFile(createMazeFile(shape, ascii.maze, {start: ascii.start, exit: ascii.exit}));
+      const sizeError = boardSizeError(file);
+      if (sizeError) {
+        setAsciiError(sizeError);
+        return;
+      }
+      loadMazeFile(file);
+      setAsciiOpen(false);
+      setMazeFileNote('Loaded the ASCII maze.');
+    } catch (error) {
+      setAsciiError((error as Error).message);
+    }
+  }, [asciiText, shape, loadMazeFile]);
+
+  const parsedSeed = parseSeed(seedInput);
+  const playSeed = useCallback(() => {
+    if (parsedSeed === null) return;
+    stopAI();
+    stopTimer();
+    setMazeGenerated(false);
+    generateMaze(parsedSeed);
+  }, [parsedSeed, generateMaze, stopAI, stopTimer]);
+
 
   useEffect(() => {
     if (!gameWon && mazeGenerated && player1 && player2 && exit && Object.keys(exit).length > 0) {
@@ -453,10 +1036,39 @@ const GameBoard: React.FC<GameBoardProps> = ({ gameMode, onReturnToMenu }) => {
     }
   }, [player1, player2, exit, gameWon, stopAI, stopTimer, mazeGenerated]);
 
+  const controlHelp = SHAPE_CONTROLS[shape.id]?.help ?? (diagonalMoves
+    ? ['Use WASD keys, Q/E/Z/C for diagonals', 'Use Arrow Keys, Numpad 7/9/1/3 for diagonals']
+    : ['Use WASD keys', 'Use Arrow Keys']);
+  const thinkingBudget = THINKING_LIMITS.find(option => option.id === thinkingLimitId)?.budget;
   const sliderValue = React.useMemo(() => [aiSpeed], [aiSpeed]);
   const handleAISpeedChange = React.useCallback((newValue: number[]) => {
     setAISpeed(newValue[0]);
   }, []);
+  const sightRadiusValue = React.useMemo(() => [sightRadius], [sightRadius]);
+  const handleSightRadiusChange = React.useCallback((newValue: number[]) => {
+    setSightRadius(newValue[0]);
+  }, []);
+  const weightSliderValue = React.useMemo(() => [astarWeight], [astarWeight]);
+  const handleAStarWeightChange = React.useCallback((newValue: number[]) => {
+    setAStarWeight(newValue[0]);
+  }, []);
+
+  // A report only describes the maze and heuristic it was computed for
+  useEffect(() => {
+    setHeuristicReport(null);
+  }, [maze, exit, heuristicId, diagonalMoves]);
+
+  const handleCheckHeuristic = useCallback(() => {
+    if (maze.width === 0) return;
+    setHeuristicReport(checkHeuristic(maze, exit.x, exit.y, heuristicId, diagonalMoves));
+  }, [maze, exit, heuristicId, diagonalMoves]);
+
+  const handleDiagonalMovesChange = useCallback((enabled: boolean) => {
+    setDiagonalMoves(enabled);
+    // Manhattan overestimates once diagonals are allowed; octile is the matching distance
+    if (enabled && heuristicId === DEFAULT_HEURISTIC) setHeuristicId('octile');
+    if (!enabled && heuristicId === 'octile') setHeuristicId(DEFAULT_HEURISTIC);
+  }, [heuristicId]);
 
 
   return (
@@ -468,20 +1080,191 @@ const GameBoard: React.FC<GameBoardProps> = ({ gameMode, onReturnToMenu }) => {
       )}
       <canvas
         ref={canvasRef}
-        width={MAZE_WIDTH * CELL_SIZE}
-        height={MAZE_HEIGHT * CELL_SIZE}
+        width={canvasWidth}
+        height={canvasHeight}
         className="border-2 border-primary rounded-md shadow-lg mt-10"
       />
        <div className="mt-2 text-lg font-semibold">
         Time: {elapsedTime}
       </div>
+      {seed !== null && (
+        <p className="text-sm text-muted-foreground">Maze seed: {seed}</p>
+      )}
+      {gameMode === 'playerVsAI' && aiThinking && searchProgress && (
+        <p className="text-sm text-muted-foreground">
+          AI thinking: {searchProgress.expanded} cells expanded, {searchProgress.frontier} in the frontier
+        </p>
+      )}
+      {gameMode === 'playerVsAI' && aiThinking && searchStep && (
+        <p className="text-sm text-muted-foreground">
+          AI thinking: {searchStep.expanded} cells expanded, {searchStep.frontier.length} in the frontier
+        </p>
+      )}
+      {gameMode === 'playerVsAI' && aiSearchError && (
+        <p className="text-sm text-destructive">AI search failed ({aiSearchError}). Press Reset Players to let it try again.</p>
+      )}
+      {gameMode === 'playerVsAI' && aiReplanning && (
+        <p className="text-sm text-muted-foreground">
+          AI replans with D* Lite: {aiReplanExpanded} cells expanded so far
+        </p>
+      )}
+      {gameMode === 'playerVsAI' && !aiKnowsMap && aiSeenCells > 0 && (
+        <p className="text-sm text-muted-foreground">
+          AI explorer has seen {aiSeenCells} of {maze.width * maze.height} cells{!aiExploring && !gameWon && ' and gave up'}
+        </p>
+      )}
+      {gameMode === 'aiVsAI' && duelPlan && (
+        <p className="text-sm text-muted-foreground">
+          Cooperative plan: {duelPlan.expanded} space-time states expanded{duelPlan.found.includes(false) && ', one AI found no route'}
+        </p>
+      )}
+      {gameMode === 'playerVsAI' && aiSearchStats && (
+        <p className="text-sm text-muted-foreground">
+          AI search: {aiSearchStats.expanded} cells expanded, {aiOutOfTime ? 'out of thinking time, heading for the most promising cell' : `path cost ${Number.isFinite(aiSearchStats.pathCost) ? aiSearchStats.pathCost : 'none'}`}, {aiSearchStats.elapsedMs.toFixed(1)} ms
+          {aiSearchStats.walkCost !== undefined && `, exploring on foot costs ${aiSearchStats.walkCost}`}
+        </p>
+      )}
       <div className="mt-4 flex flex-col items-center space-y-2">
         <Accordion type="single" collapsible className="w-full max-w-md">
           <AccordionItem value="settings">
             <AccordionTrigger>Settings</AccordionTrigger>
             <AccordionContent className="flex flex-col items-center space-y-4">
-              {gameMode === 'playerVsAI' && (
-                <>
+              <div className="w-64 space-y-2">
+                <Label htmlFor="seed">Maze seed</Label>
+                <div className="flex space-x-2">
+                  <Input id="seed" inputMode="numeric" value={seedInput} onChange={(event) => setSeedInput(event.target.value)} />
+                  <Button variant="outline" onClick={playSeed} disabled={parsedSeed === null}>Play</Button>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {parsedSeed === null
+                    ? 'A seed is a whole number from 0 to 4294967295.'
+                    : 'The same seed, size, loops, cell shape, generator and terrain setting give everyone the same maze, whatever the difficulty setting.'}
+                </p>
+              </div>
+              <div className="w-64 space-y-2">
+                <Label>Maze file</Label>
+                <div className="flex space-x-2">
+                  <Button variant="outline" onClick={saveMazeFile} disabled={!mazeReady}>Save</Button>
+                  <Button variant="outline" onClick={() => mazeFileInputRef.current?.click()}>Load</Button>
+                  <input ref={mazeFileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={openMazeFile} />
+                  {squareGrid && <Button variant="outline" onClick={openAsciiDialog} disabled={!mazeReady}>ASCII</Button>}
+                </div>
+                <p className="text-sm text-muted-foreground">Saves the walls, start, exit and seed as JSON, to load here later.</p>
+              </div>
+              <div className="w-64 space-y-2">
+                <Label htmlFor="maze-width">Maze size: {settingsDraft.width} x {settingsDraft.height}</Label>
+                <Slider
+                  id="maze-width"
+                  value={[settingsDraft.width]}
+                  min={MIN_MAZE_SIZE}
+                  max={MAX_MAZE_SIZE}
+                  step={1}
+                  onValueChange={([width]) => setSettingsDraft(draft => ({...draft, width}))}
+                  onValueCommit={([width]) => setMazeSettings(settings => ({...settings, width}))}
+                />
+                <Slider
+                  id="maze-height"
+                  value={[settingsDraft.height]}
+                  min={MIN_MAZE_SIZE}
+                  max={MAX_MAZE_SIZE}
+                  step={1}
+                  onValueChange={([height]) => setSettingsDraft(draft => ({...draft, height}))}
+                  onValueCommit={([height]) => setMazeSettings(settings => ({...settings, height}))}
+                />
+                <p className="text-sm text-muted-foreground">Width, then height. Cells shrink to fit the window.</p>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Switch id="perfect-maze" checked={perfectMaze} onCheckedChange={setPerfectMaze} />
+                <Label htmlFor="perfect-maze">Perfect maze (exactly one route to the exit)</Label>
+              </div>
+              {!perfectMaze && (
+                <div className="w-64 space-y-2">
+                  <Label htmlFor="loop-density">Loops: {settingsDraft.loopPercent}% of cells get an extra opening</Label>
+                  <Slider
+                    id="loop-density"
+                    value={[settingsDraft.loopPercent]}
+                    min={0}
+                    max={100}
+                    step={1}
+                    onValueChange={([loopPercent]) => setSettingsDraft(draft => ({...draft, loopPercent}))}
+                    onValueCommit={([loopPercent]) => setMazeSettings(settings => ({...settings, loopPercent}))}
+                  />
+                </div>
+              )}
+              <div className="w-64 space-y-2">
+                <Label htmlFor="difficulty-target">Difficulty (regenerates the map)</Label>
+                <Select value={difficultyTarget} onValueChange={(value) => setDifficultyTarget(value as DifficultyBand | 'any')}>
+                  <SelectTrigger id="difficulty-target">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any</SelectItem>
+                    {DIFFICULTY_BANDS.map((band) => (
+                      <SelectItem key={band.id} value={band.id}>{band.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {difficultyMissed && (
+                  <p className="text-sm text-muted-foreground">
+                    No {DIFFICULTY_BANDS.find(band => band.id === difficultyMissed)?.label.toLowerCase()} maze within {MAX_DIFFICULTY_ATTEMPTS} tries with these settings; showing the closest. Fewer loops make mazes harder.
+                  </p>
+                )}
+              </div>
+              {squareGrid ? (
+                <div className="w-64 space-y-2">
+                  <Label htmlFor="maze-algorithm">Maze generator (regenerates the map)</Label>
+                  <Select value={mazeAlgorithmId} onValueChange={setMazeAlgorithmId}>
+                    <SelectTrigger id="maze-algorithm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {mazeAlgorithms.map((algorithm) => (
+                        <SelectItem key={algorithm.id} value={algorithm.id}>{algorithm.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-sm text-muted-foreground">
+                    {mazeAlgorithms.find(algorithm => algorithm.id === mazeAlgorithmId)?.description}
+                  </p>
+                  {mazeAlgorithmId === 'growing-tree' && (
+                    <>
+                      <Label htmlFor="growing-tree-strategy">Grow from</Label>
+                      <Select value={growingTreeStrategy} onValueChange={setGrowingTreeStrategy}>
+                        <SelectTrigger id="growing-tree-strategy">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {GROWING_TREE_STRATEGIES.map((strategy) => (
+                            <SelectItem key={strategy.id} value={strategy.id}>{strategy.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </>
+                  )}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">Hexagonal and triangular mazes are always carved by the recursive backtracker.</p>
+              )}
+              <div className="flex items-center space-x-2">
+                <Switch id="terrain" checked={terrainEnabled} onCheckedChange={setTerrainEnabled} />
+                <Label htmlFor="terrain">Weighted terrain (regenerates the map)</Label>
+              </div>
+              {gameMode !== 'aiVsAI' && squareGrid && (
+                <div className="flex items-center space-x-2">
+                  <Switch id="diagonal-moves" checked={diagonalMoves} onCheckedChange={handleDiagonalMovesChange} />
+                  <Label htmlFor="diagonal-moves">Diagonal moves through open corners</Label>
+                </div>
+              )}
+              {diagonalMoves && gameMode === 'playerVsAI' && (!aiKnowsMap || shiftingWalls) && (
+                <p className="text-sm text-muted-foreground">The AI explorers and D* Lite still move four ways.</p>
+              )}
+              {gameMode !== 'aiVsAI' && squareGrid && (
+                <div className="flex items-center space-x-2">
+                  <Switch id="shifting-walls" checked={shiftingWalls} onCheckedChange={setShiftingWalls} />
+                  <Label htmlFor="shifting-walls">Shifting walls (every {WALL_SHIFT_INTERVAL_MS / 1000} s)</Label>
+                </div>
+              )}
+              {gameMode !== 'playerVsPlayer' && (
                   <div className="w-64">
                     <Label htmlFor="ai-speed">AI Speed (ms): {aiSpeed}</Label>
                     <Slider
@@ -495,34 +1278,193 @@ const GameBoard: React.FC<GameBoardProps> = ({ gameMode, onReturnToMenu }) => {
                     />
                      <p className="text-sm text-muted-foreground text-center">Slower ---- Faster</p>
                   </div>
-                  <Label>AI Search Method</Label>
-                  <RadioGroup
-                    value={searchMethod}
-                    className="flex space-x-4 justify-center flex-wrap"
-                    onValueChange={(value) => {
-                        const newMethod = value as SearchMethod;
-                        setSearchMethod(newMethod);
-                    }}
-                    >
-                    {methods.map((method) => (
-                        <div key={method} className="flex items-center space-x-2">
-                            <RadioGroupItem value={method} id={method} />
-                            <Label htmlFor={method}>
-                            {method === 'ASTAR' ? 'A*'
-                                : method.includes('_EXPLORE') ? `${method.replace('_EXPLORE', '')} (Explore)`
-                                : method}
-                            </Label>
-                        </div>
-                    ))}
-                    </RadioGroup>
+              )}
+              {gameMode === 'playerVsAI' && (
+                <>
+                  {squareGrid && (
+                    <div className="flex items-center space-x-2">
+                      <Switch id="ai-knows-map" checked={aiKnowsMap} onCheckedChange={setAIKnowsMap} />
+                      <Label htmlFor="ai-knows-map">AI knows the whole map</Label>
+                    </div>
+                  )}
+                  {aiKnowsMap ? (
+                    <>
+                    <div className="w-64 space-y-2">
+                      <Label htmlFor="thinking-limit">AI thinking time</Label>
+                      <Select value={thinkingLimitId} onValueChange={setThinkingLimitId}>
+                        <SelectTrigger id="thinking-limit">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {THINKING_LIMITS.map((option) => (
+                            <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {thinkingBudget && (
+                        <p className="text-sm text-muted-foreground">
+                          Up to {thinkingBudget.maxExpansions} cells expanded, {thinkingBudget.maxMs} ms and {thinkingBudget.maxNodes} cells in memory per search.
+                          When it runs out, the AI heads for the most promising cell and thinks again there.
+                        </p>
+                      )}
+                    </div>
+                    <Label>AI Search Method</Label>
+                    {shiftingWalls && squareGrid && (
+                      <p className="text-sm text-muted-foreground">Shifting walls: the AI follows D* Lite, which repairs its route as walls move, so the search method does not apply.</p>
+                    )}
+                    <RadioGroup
+                      value={searchMethod}
+                      disabled={shiftingWalls && squareGrid}
+                      className="flex space-x-4 justify-center flex-wrap"
+                      onValueChange={(value) => {
+                          const newMethod = value as SearchMethod;
+                          setSearchMethod(newMethod);
+                      }}
+                      >
+                      <TooltipProvider>
+                      {methods.map((method) => {
+                          const info = describeSearchMethod(method);
+                          return (
+                          <div key={method} className="flex items-center space-x-2">
+                              <RadioGroupItem value={method} id={method} />
+                              <Tooltip>
+                                <TooltipTrigger asChild>
+                                  <Label htmlFor={method}>{info?.label ?? method}</Label>
+                                </TooltipTrigger>
+                                {info && (
+                                  <TooltipContent className="max-w-xs">
+                                    <p>{info.description}</p>
+                                    <p className="text-muted-foreground">
+                                      {info.properties.complete ? 'Complete' : 'Not complete'} · {info.properties.optimal ? 'Optimal' : 'Not optimal'}
+                                      {info.explore && ' · AI walks the exploration order'}
+                                    </p>
+                                  </TooltipContent>
+                                )}
+                              </Tooltip>
+                          </div>
+                          );
+                      })}
+                      </TooltipProvider>
+                      </RadioGroup>
+                    {searchMethod.startsWith('WEIGHTED_ASTAR') && (
+                      <div className="w-64">
+                        <Label htmlFor="astar-weight">Weighted A* weight (ε): {astarWeight.toFixed(1)}</Label>
+                        <Slider
+                          id="astar-weight"
+                          value={weightSliderValue}
+                          max={5}
+                          min={1}
+                          step={0.1}
+                          onValueChange={handleAStarWeightChange}
+                          className="mt-2"
+                        />
+                        <p className="text-sm text-muted-foreground text-center">Optimal ---- Greedier</p>
+                      </div>
+                    )}
+                    {describeSearchMethod(searchMethod)?.properties.informed && !squareGrid && (
+                      <p className="text-sm text-muted-foreground">Heuristic: fewest {shape.label.toLowerCase()} moves to the exit, ignoring walls.</p>
+                    )}
+                    {describeSearchMethod(searchMethod)?.properties.informed && squareGrid && (
+                      <div className="w-64 space-y-2">
+                        <Label htmlFor="heuristic">Heuristic</Label>
+                        <Select value={heuristicId} onValueChange={setHeuristicId}>
+                          <SelectTrigger id="heuristic">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {heuristics.map((heuristic) => (
+                              <SelectItem key={heuristic.id} value={heuristic.id}>{heuristic.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <p className="text-sm text-muted-foreground">
+                          {heuristics.find(heuristic => heuristic.id === heuristicId)?.description}
+                        </p>
+                        <Button variant="outline" size="sm" onClick={handleCheckHeuristic}>
+                          Check on this maze
+                        </Button>
+                        {heuristicReport && (
+                          <div className="text-sm text-muted-foreground">
+                            <p>
+                              {heuristicReport.admissible ? 'Admissible' : `Not admissible: overestimates at ${heuristicReport.admissibilityViolationCount} cells`}
+                              {' · '}
+                              {heuristicReport.consistent ? 'Consistent' : `Not consistent: ${heuristicReport.consistencyViolationCount} moves`}
+                              {` (${heuristicReport.checkedCells} cells checked)`}
+                            </p>
+                            {heuristicReport.admissibilityViolations.slice(0, REPORTED_VIOLATIONS).map(v => (
+                              <p key={`a-${v.x}-${v.y}`}>({v.x}, {v.y}): h = {v.h.toFixed(2)} &gt; true cost {v.trueCost}</p>
+                            ))}
+                            {heuristicReport.consistencyViolations.slice(0, REPORTED_VIOLATIONS).map(v => (
+                              <p key={`c-${v.x}-${v.y}-${v.nx}-${v.ny}`}>({v.x}, {v.y}) → ({v.nx}, {v.ny}): h drops {(v.h - v.hNext).toFixed(2)} &gt; step cost {v.stepCost}</p>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    )}
+                    {squareGrid && (
+                      <div className="flex items-center space-x-2">
+                        <Switch id="watch-search" checked={watchSearch} onCheckedChange={setWatchSearch} />
+                        <Label htmlFor="watch-search">Watch the AI search step by step</Label>
+                      </div>
+                    )}
+                    </>
+                  ) : (
+                    <div className="w-64 space-y-2">
+                      <Label htmlFor="online-agent">AI explorer</Label>
+                      <Select value={onlineAgentId} onValueChange={setOnlineAgentId}>
+                        <SelectTrigger id="online-agent">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {onlineAgents.map((agent) => (
+                            <SelectItem key={agent.id} value={agent.id}>{agent.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-sm text-muted-foreground">
+                        {onlineAgents.find(agent => agent.id === onlineAgentId)?.description}
+                      </p>
+                      <Label htmlFor="sight-radius">Sight radius: {sightRadius === 0 ? 'own cell only' : `${sightRadius} cells`}</Label>
+                      <Slider
+                        id="sight-radius"
+                        value={sightRadiusValue}
+                        max={MAX_SIGHT_RADIUS}
+                        min={0}
+                        step={1}
+                        onValueChange={handleSightRadiusChange}
+                        className="mt-2"
+                      />
+                      <p className="text-sm text-muted-foreground">Applies from the next Reset Players.</p>
+                    </div>
+                  )}
 
                 </>
               )}
-               {gameMode !== 'playerVsAI' && (
+               {gameMode === 'playerVsPlayer' && (
                    <p className="text-muted-foreground">AI settings available in Player vs AI mode.</p>
                )}
+               {gameMode === 'aiVsAI' && (
+                   <p className="text-muted-foreground">Both AIs plan together with space-time A* so they never share a cell. Search settings apply in Player vs AI mode.</p>
+               )}
             </AccordionContent>
           </AccordionItem>
+          {mazeAnalysis && (
+            <AccordionItem value="difficulty">
+              <AccordionTrigger>
+                Difficulty: {DIFFICULTY_BANDS.find(band => band.id === mazeAnalysis.difficulty)?.label} ({mazeAnalysis.score.toFixed(2)})
+              </AccordionTrigger>
+              <AccordionContent>
+                <ul className="text-sm text-muted-foreground space-y-1">
+                  <li>Shortest path: {Number.isFinite(mazeAnalysis.shortestPath) ? `${mazeAnalysis.shortestPath} moves` : 'none'}</li>
+                  <li>Dead ends: {mazeAnalysis.deadEnds} of {mazeAnalysis.cells} cells</li>
+                  <li>Branching factor: {mazeAnalysis.branchingFactor.toFixed(2)} openings per cell</li>
+                  <li>Loops: {mazeAnalysis.loops}</li>
+                  <li>Tortuosity: {Number.isFinite(mazeAnalysis.tortuosity) ? mazeAnalysis.tortuosity.toFixed(2) : 'no route'}</li>
+                  <li>Cells expanded: BFS {mazeAnalysis.expanded.BFS}, DFS {mazeAnalysis.expanded.DFS}, A* {mazeAnalysis.expanded.ASTAR}</li>
+                </ul>
+              </AccordionContent>
+            </AccordionItem>
+          )}
         </Accordion>
         <div className="flex space-x-4 mt-4">
           <Button
@@ -537,6 +1479,13 @@ const GameBoard: React.FC<GameBoardProps> = ({ gameMode, onReturnToMenu }) => {
           >
             Change Map
           </Button>
+          <Button
+            variant="secondary"
+            onClick={shareMaze}
+            disabled={!mazeReady}
+          >
+            Share
+          </Button>
           <Button
             variant="secondary"
             onClick={onReturnToMenu}
@@ -544,9 +1493,40 @@ const GameBoard: React.FC<GameBoardProps> = ({ gameMode, onReturnToMenu }) => {
             Return to Menu
           </Button>
         </div>
+        {mazeFileNote && <p className="text-sm text-muted-foreground">{mazeFileNote}</p>}
+        <Dialog open={asciiOpen} onOpenChange={setAsciiOpen}>
+          <DialogContent className="max-w-3xl">
+            <DialogHeader>
+              <DialogTitle>ASCII maze</DialogTitle>
+              <DialogDescription>
+                '#' for walls, spaces for openings, S and E for the start and exit, two lines per row of cells plus one.
+                The current maze is shown with the AI's route as dots; copy it, or paste another maze and load it.
+              </DialogDescription>
+            </DialogHeader>
+            <Textarea
+              value={asciiText}
+              onChange={(event) => setAsciiText(event.target.value)}
+              spellCheck={false}
+              wrap="off"
+              className="h-80 font-mono text-xs leading-none md:text-xs"
+            />
+            {asciiError && <p className="text-sm text-destructive">{asciiError}</p>}
+            <DialogFooter>
+              <Button variant="outline" onClick={() => navigator.clipboard.writeText(asciiText)}>Copy</Button>
+              <Button onClick={loadAsciiMaze}>Load</Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
          {!gameWon && (
             <p className="text-muted-foreground mt-2">
-              Player 1: Use WASD keys. {gameMode === 'playerVsPlayer' ? 'Player 2: Use Arrow Keys.' : 'Player 2: AI Controlled.'}
+              {gameMode === 'aiVsAI'
+                ? 'Both players: AI Controlled. Press Reset Players to start the race.'
+                : `Player 1: ${controlHelp[0]}. ${gameMode === 'playerVsPlayer' ? `Player 2: ${controlHelp[1]}.` : 'Player 2: AI Controlled.'}`}
+            </p>
+          )}
+         {terrainEnabled && (
+            <p className="text-sm text-muted-foreground">
+              {TERRAINS.map(t => `${t.name} costs ${t.cost}`).join(', ')}: players and AI move slower through it.
             </p>
           )}
       </div>
@@ -1,17 +1,43 @@
 
 "use client";
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import GameBoard from './game-board';
 import { Button } from "@/components/ui/button";
 import {RadioGroup, RadioGroupItem} from "@/components/ui/radio-group";
 import {Label} from "@/components/ui/label";
+import {getTopologies, getTopology, DEFAULT_TOPOLOGY} from '@/topology';
+import {readShareHash, MazeFile} from '@/maze-format';
 
-type GameMode = 'playerVsPlayer' | 'playerVsAI';
+type GameMode = 'playerVsPlayer' | 'playerVsAI' | 'aiVsAI';
 
 export default function MazeGame() {
   const [gameMode, setGameMode] = useState<GameMode | undefined>(undefined);
   const [gameStarted, setGameStarted] = useState(false);
+  const [topology, setTopology] = useState(DEFAULT_TOPOLOGY);
+  const [sharedMaze, setSharedMaze] = useState<MazeFile | null>(null); // From a share link, played by every game until discarded
+  const [shareError, setShareError] = useState<string | null>(null);
+  const topologies = getTopologies();
+  // The cooperative AI vs AI planner only works on square cells
+  const shapeLocked = gameMode === 'aiVsAI';
+  const sharedShaped = sharedMaze !== null && sharedMaze.topology !== DEFAULT_TOPOLOGY;
+
+  useEffect(() => {
+    try {
+      const file = readShareHash(window.location.hash);
+      if (!file) return;
+      setSharedMaze(file);
+      setTopology(file.topology);
+    } catch (error) {
+      setShareError((error as Error).message);
+    }
+  }, []);
+
+  const discardSharedMaze = () => {
+    setSharedMaze(null);
+    setShareError(null);
+    window.history.replaceState(null, '', window.location.pathname);
+  };
 
   const startGame = (mode: GameMode) => {
     setGameMode(mode);
@@ -42,14 +68,44 @@ export default function MazeGame() {
               <RadioGroupItem value="playerVsAI" id="playerVsAI"/>
               <Label htmlFor="playerVsAI">Player vs AI</Label>
             </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="aiVsAI" id="aiVsAI" disabled={sharedShaped}/>
+              <Label htmlFor="aiVsAI">AI vs AI</Label>
+            </div>
           </RadioGroup>
+          <Label>Cell shape</Label>
+          <RadioGroup
+            value={shapeLocked ? DEFAULT_TOPOLOGY : topology}
+            onValueChange={setTopology}
+            className="flex space-x-4 justify-center"
+          >
+            {topologies.map((shape) => (
+              <div key={shape.id} className="flex items-center space-x-2">
+                <RadioGroupItem value={shape.id} id={`shape-${shape.id}`} disabled={(shapeLocked && shape.id !== DEFAULT_TOPOLOGY) || (sharedMaze !== null && shape.id !== sharedMaze.topology)}/>
+                <Label htmlFor={`shape-${shape.id}`} title={shape.description}>{shape.label}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+          {shapeLocked && (
+            <p className="text-sm text-muted-foreground">AI vs AI is played on square cells.</p>
+          )}
+          {(sharedMaze || shareError) && (
+            <div className="flex items-center space-x-2">
+              <p className="text-sm text-muted-foreground">
+                {sharedMaze
+                  ? `Shared maze: ${sharedMaze.width} x ${sharedMaze.height}, ${getTopology(sharedMaze.topology).label.toLowerCase()} cells${sharedShaped ? ' (not for AI vs AI)' : ''}.`
+                  : `Could not open the shared maze. ${shareError}`}
+              </p>
+              <Button variant="outline" size="sm" onClick={discardSharedMaze}>{sharedMaze ? 'Play new mazes' : 'Dismiss'}</Button>
+            </div>
+          )}
           <Button onClick={() => { if (gameMode) setGameStarted(true); }} disabled={gameMode === undefined}>
             Start Game
           </Button>
         </div>
       ) : (
         // Render GameBoard only if gameStarted is true and gameMode is defined
-        gameMode && <GameBoard gameMode={gameMode} onReturnToMenu={returnToMenu} />
+        gameMode && <GameBoard gameMode={gameMode} topology={shapeLocked ? DEFAULT_TOPOLOGY : topology} sharedMaze={sharedMaze ?? undefined} onReturnToMenu={returnToMenu} />
       )}
     </div>
   );
@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { graphFromEdges, MazeGraph } from '@/graph';
+import { getSearchMethods, search, searchGraph } from '@/pathfinder';
+import { randomMaze } from '@/test-mazes';
+
+// A -1- B -1- D is the shortest route by edges, A -1- C -1- E -1- D the cheapest by cost
+const ROADS: [string, string, number][] = [
+  ['A', 'B', 1],
+  ['B', 'D', 5],
+  ['A', 'C', 1],
+  ['C', 'E', 1],
+  ['E', 'D', 1],
+  ['D', 'F', 1],
+];
+
+describe('graphFromEdges', () => {
+  it('numbers nodes in order of first appearance and links both ways unless directed', () => {
+    const graph = graphFromEdges(ROADS);
+    assert.equal(graph.size, 6);
+    assert.deepEqual(['A', 'B', 'D', 'C', 'E', 'F'].map(node => graph.key(node)), [0, 1, 2, 3, 4, 5]);
+    assert.equal(graph.node(3), 'C');
+    assert.deepEqual(graph.neighbours('D'), ['B', 'E', 'F']);
+    assert.equal(graph.cost('D', 'B'), 5);
+    assert.equal(graph.cost('A', 'F'), Infinity);
+    assert.throws(() => graph.key('Z'), /Unknown node: Z/);
+
+    const oneWay = graphFromEdges(ROADS, { directed: true });
+    assert.deepEqual(oneWay.neighbours('D'), ['F']);
+  });
+});
+
+describe('searchGraph', () => {
+  it('runs every search method on a graph given as edges', () => {
+    const graph = graphFromEdges(ROADS);
+    for (const method of getSearchMethods()) {
+      const result = searchGraph(graph, 'A', 'F', method);
+      assert.equal(result.found, true, method);
+      assert.equal(result.path.at(-1), 'F', method);
+    }
+    assert.deepEqual(searchGraph(graph, 'A', 'F', 'BFS').path, ['B', 'D', 'F']);
+    assert.deepEqual(searchGraph(graph, 'A', 'F', 'DIJKSTRA').path, ['C', 'E', 'D', 'F']);
+    assert.equal(searchGraph(graph, 'A', 'F', 'ASTAR').stats.pathCost, 4);
+  });
+
+  it('only follows directed edges forwards', () => {
+    const graph = graphFromEdges(ROADS, { directed: true });
+    assert.equal(searchGraph(graph, 'A', 'F', 'DIJKSTRA').found, true);
+    assert.equal(searchGraph(graph, 'F', 'A', 'DIJKSTRA').found, false);
+  });
+
+  it('gives the same answer on a MazeGraph as search does on the maze', () => {
+    for (let seed = 1; seed <= 5; seed++) {
+      const maze = randomMaze(9, 7, seed);
+      for (const method of ['BFS', 'ASTAR', 'BIDIRECTIONAL_ASTAR'] as const) {
+        const expected = search(0, 0, 8, 6, method, maze);
+        const result = searchGraph(new MazeGraph(maze), [0, 0], [8, 6], method);
+        assert.deepEqual(result.path, expected.path, `${method} in maze ${seed}`);
+        assert.deepEqual(result.explored, expected.explored, `${method} in maze ${seed}`);
+      }
+    }
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * @fileOverview The graph interface the searches in pathfinder.ts run on, with adapters for square-cell
+ * mazes and for graphs given as edge lists.
+ *
+ * - Graph - Interface for anything the searches can solve: grid mazes, hex mazes, mazes with portals...
+ * - MazeGraph - Graph over a square-cell maze (MazeCell[][] or PackedMaze); nodes are [x, y] coordinates.
+ * - graphFromEdges - Builds a Graph from a list of edges, e.g. a graph loaded from a file.
+ * - openNeighbours - Indices of the cells reachable in one step from a maze cell.
+ * - canMoveDiagonally - Whether a diagonal step between two maze cells is open.
+ * - cellCost - Movement cost of entering a maze cell.
+ * - minCellCost - Cheapest cell cost in a maze.
+ *
+ * Searches address nodes by `key`, a dense integer in [0, size), so they can keep their bookkeeping in
+ * typed arrays whatever the node type is. Moves are directed (`cost(from, to)`); the bidirectional
+ * searches additionally assume `to` is a neighbour of `from` exactly when `from` is a neighbour of `to`.
+ *
+ * Square mazes can also allow eight-way moves. A diagonal step passes through the corner between four
+ * cells, so it is only open when none of the four walls meeting at that corner is standing, and it
+ * costs √2 times the cost of the cell it enters.
+ *
+ * The maze helpers read walls through packed-maze.ts, so they work on MazeCell[][] grids and on the
+ * compact PackedMaze alike without converting either.
+ */
+
+import { resolveHeuristic, type HeuristicFunction } from '@/heuristics';
+import { gridSize, isPackedMaze, wallsAt, WALL_EAST, WALL_NORTH, WALL_SOUTH, WALL_WEST, type GridMaze } from '@/packed-maze';
+
+/**
+ * A graph to search. Keys must be distinct integers in [0, size), with `node` the inverse of `key`.
+ */
+export interface Graph<Node> {
+  readonly size: number;
+  key(node: Node): number;
+  node(key: number): Node;
+  neighbours(node: Node): Node[];              // nodes reachable in one move, in exploration order
+  cost(from: Node, to: Node): number;          // cost of moving from `from` to its neighbour `to`, > 0
+  heuristic(node: Node, target: Node): number; // estimate of the cheapest cost from `node` to `target`
+  position?(node: Node): [number, number];     // where to draw the node; searchSteps snapshots use it
+}
+
+/**
+ * Square-cell maze as a Graph. Moving into a cell costs its `cost` (1 by default), √2 times that for a
+ * diagonal step, and the heuristic is a registered id or custom HeuristicFunction, scaled as in heuristics.ts.
+ *
+ * Besides the Graph methods it offers the same operations on cell indices (`y * width + x`), which the
+ * searches use directly to avoid allocating a coordinate pair per visited cell.
+ */
+export class MazeGraph implements Graph<[number, number]> {
+  readonly maze: GridMaze;
+  readonly width: number;
+  readonly size: number;
+  readonly minCost: number; // cheapest cell cost in the maze
+  readonly diagonal: boolean; // eight-way moves
+  private readonly estimate: HeuristicFunction;
+
+  /**
+   * @param maze      2D array of MazeCell or a PackedMaze describing walls.
+   * @param heuristic Registered heuristic id or custom function, DEFAULT_HEURISTIC when omitted.
+   * @param diagonal  Allow diagonal steps through open corners.
+   */
+  constructor(maze: GridMaze, heuristic?: string | HeuristicFunction, diagonal = false) {
+    const [width, height] = gridSize(maze);
+    this.maze = maze;
+    this.diagonal = diagonal;
+    this.width = width;
+    this.size = width * height;
+    this.minCost = minCellCost(maze);
+    this.estimate = resolveHeuristic(heuristic, { maze, minCost: this.minCost, diagonal });
+  }
+
+  key([x, y]: [number, number]): number {
+    return y * this.width + x;
+  }
+
+  node(key: number): [number, number] {
+    return [key % this.width, Math.floor(key / this.width)];
+  }
+
+  neighbours(node: [number, number]): [number, number][] {
+    return openNeighbours(this.maze, this.key(node), [], this.diagonal).map(index => this.node(index));
+  }
+
+  cost(from: [number, number], to: [number, number]): number {
+    return this.indexCost(this.key(from), this.key(to));
+  }
+
+  heuristic([x, y]: [number, number], [endX, endY]: [number, number]): number {
+    return this.estimate(x, y, endX, endY);
+  }
+
+  position(node: [number, number]): [number, number] {
+    return node;
+  }
+
+  /** neighbours() on cell indices, written into the scratch array `out`. */
+  neighbourIndices(index: number, out: number[]): number[] {
+    return openNeighbours(this.maze, index, out, this.diagonal);
+  }
+
+  /** cost() on cell indices. */
+  indexCost(from: number, to: number): number {
+    const cost = cellCost(this.maze, to);
+    const diagonalStep = from % this.width !== to % this.width && Math.floor(from / this.width) !== Math.floor(to / this.width);
+    return diagonalStep ? cost * Math.SQRT2 : cost;
+  }
+
+  /** heuristic() on cell indices. */
+  indexHeuristic(index: number, target: number): number {
+    const x = index % this.width;
+    const endX = target % this.width;
+    return this.estimate(x, (index - x) / this.width, endX, (target - endX) / this.width);
+  }
+}
+
+/**
+ * Builds a Graph from edges. Nodes are compared by identity (===), so strings and numbers work best.
+ * @param edges   [from, to] or [from, to, cost] triples; the cost defaults to 1.
+ * @param options `directed` keeps edges one-way (they go both ways by default); `heuristic` estimates
+ *                the cost between two nodes and defaults to 0, which makes A* behave like Dijkstra.
+ * @returns        The graph, with keys assigned in order of first appearance.
+ */
+export function graphFromEdges<Node>(
+  edges: [Node, Node, number?][],
+  options: { directed?: boolean; heuristic?: (node: Node, target: Node) => number } = {}
+): Graph<Node> {
+  const keys = new Map<Node, number>();
+  const nodes: Node[] = [];
+  const adjacency: Map<number, number>[] = []; // key -> (neighbour key -> cost), in insertion order
+  const keyOf = (node: Node) => {
+    let key = keys.get(node);
+    if (key === undefined) {
+      key = nodes.length;
+      keys.set(node, key);
+      nodes.push(node);
+      adjacency.push(new Map());
+    }
+    return key;
+  };
+  for (const [from, to, cost = 1] of edges) {
+    const a = keyOf(from);
+    const b = keyOf(to);
+    adjacency[a].set(b, cost);
+    if (!options.directed) adjacency[b].set(a, cost);
+  }
+  const key = (node: Node) => {
+    const found = keys.get(node);
+    if (found === undefined) throw new Error(`Unknown node: ${String(node)}`);
+    return found;
+  };
+
+  return {
+    size: nodes.length,
+    key,
+    node: index => nodes[index],
+    neighbours: node => Array.from(adjacency[key(node)].keys(), index => nodes[index]),
+    cost: (from, to) => adjacency[key(from)].get(key(to)) ?? Infinity,
+    heuristic: options.heuristic ?? (() => 0),
+  };
+}
+
+/**
+ * Writes the indices of the cells reachable in one step from `index` into `out`,
+ * in exploration order: Up, Right, Down, Left, then Up-Right, Down-Right, Down-Left, Up-Left.
+ * @param maze     2D array of MazeCell or a PackedMaze describing walls.
+ * @param index    Cell index (`y * width + x`).
+ * @param out      Scratch array reused between calls.
+ * @param diagonal Include diagonal steps through open corners.
+ * @returns          `out`, holding the open neighbours.
+ */
+export function openNeighbours(maze: GridMaze, index: number, out: number[], diagonal = false): number[] {
+  const [width, height] = gridSize(maze);
+  const x = index % width;
+  const y = (index - x) / width;
+  const walls = wallsAt(maze, index);
+  out.length = 0;
+  if (!(walls & WALL_NORTH) && y > 0) out.push(index - width);
+  if (!(walls & WALL_EAST) && x < width - 1) out.push(index + 1);
+  if (!(walls & WALL_SOUTH) && y < height - 1) out.push(index + width);
+  if (!(walls & WALL_WEST) && x > 0) out.push(index - 1);
+  if (diagonal) {
+    if (canMoveDiagonally(maze, x, y, 1, -1)) out.push(index - width + 1);
+    if (canMoveDiagonally(maze, x, y, 1, 1)) out.push(index + width + 1);
+    if (canMoveDiagonally(maze, x, y, -1, 1)) out.push(index + width - 1);
+    if (canMoveDiagonally(maze, x, y, -1, -1)) out.push(index - width - 1);
+  }
+  return out;
+}
+
+/**
+ * Whether the diagonal step from (x, y) to (x + dx, y + dy) is open: all four walls meeting at the
+ * corner it passes through are down, so both L-shaped routes around the corner are open too.
+ * @param maze 2D array of MazeCell or a PackedMaze describing walls.
+ * @param dx   -1 or 1.
+ * @param dy   -1 or 1.
+ */
+export function canMoveDiagonally(maze: GridMaze, x: number, y: number, dx: number, dy: number): boolean {
+  const [width, height] = gridSize(maze);
+  const nx = x + dx;
+  const ny = y + dy;
+  if (nx < 0 || ny < 0 || ny >= height || nx >= width) return false;
+  const here = wallsAt(maze, y * width + x);
+  const besideRow = wallsAt(maze, ny * width + x); // the cell the vertical half of the step passes
+  const besideColumn = wallsAt(maze, y * width + nx); // the cell the horizontal half of the step passes
+  const horizontalWall = dx > 0 ? WALL_EAST : WALL_WEST;
+  const verticalWall = dy > 0 ? WALL_SOUTH : WALL_NORTH;
+  return !((here | besideRow) & horizontalWall) && !((here | besideColumn) & verticalWall);
+}
+
+/**
+ * Returns the movement cost of entering the cell at `index`.
+ */
+export function cellCost(maze: GridMaze, index: number): number {
+  if (isPackedMaze(maze)) return maze.costs ? maze.costs[index] : 1;
+  const width = maze[0].length;
+  const x = index % width;
+  return maze[(index - x) / width][x].cost ?? 1;
+}
+
+/**
+ * Returns the cheapest cost of entering any cell, 1 when no cell has a cost.
+ */
+export function minCellCost(maze: GridMaze): number {
+  if (isPackedMaze(maze)) return maze.costs ? maze.costs.reduce((min, cost) => Math.min(min, cost), Infinity) : 1;
+  let minCost = Infinity;
+  for (const row of maze) {
+    for (const cell of row) minCost = Math.min(minCost, cell.cost ?? 1);
+  }
+  return minCost;
+}
@@ -0,0 +1,110 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkHeuristic, getHeuristics, trueDistances } from '@/heuristics';
+import { search } from '@/pathfinder';
+import { cheapestCost, randomMaze } from '@/test-mazes';
+
+const SEEDS = [1, 2, 3, 4, 5];
+
+describe('trueDistances', () => {
+  it('gives the cheapest cost from every cell to the target', () => {
+    for (const seed of SEEDS) {
+      const maze = randomMaze(7, 5, seed);
+      const distance = trueDistances(maze, 6, 4);
+      for (let y = 0; y < 5; y++) {
+        for (let x = 0; x < 7; x++) assert.equal(distance[y * 7 + x], cheapestCost(maze, [x, y], [6, 4]), `(${x}, ${y}) in maze ${seed}`);
+      }
+    }
+  });
+});
+
+describe('checkHeuristic', () => {
+  it('finds every built-in heuristic admissible and consistent', () => {
+    for (const seed of SEEDS) {
+      const maze = randomMaze(9, 7, seed);
+      for (const { id } of getHeuristics()) {
+        const report = checkHeuristic(maze, 8, 6, id);
+        assert.ok(report.admissible && report.consistent, `${id} in maze ${seed}`);
+        assert.equal(report.checkedCells, Array.from(trueDistances(maze, 8, 6)).filter(Number.isFinite).length);
+      }
+    }
+  });
+
+  it('reports where an overestimating heuristic goes wrong', () => {
+    const maze = randomMaze(9, 7, 1);
+    const distance = trueDistances(maze, 8, 6);
+    const report = checkHeuristic(maze, 8, 6, (x, y, endX, endY) => 10 * (Math.abs(x - endX) + Math.abs(y - endY)));
+    assert.equal(report.admissible, false);
+    assert.equal(report.consistent, false);
+    assert.ok(report.admissibilityViolationCount >= report.admissibilityViolations.length);
+    for (const violation of report.admissibilityViolations) {
+      assert.equal(violation.trueCost, distance[violation.y * 9 + violation.x]);
+      assert.ok(violation.h > violation.trueCost);
+    }
+    for (const violation of report.consistencyViolations) assert.ok(violation.h > violation.stepCost + violation.hNext);
+  });
+
+  it('flags a heuristic that is not zero at the exit', () => {
+    const report = checkHeuristic(randomMaze(5, 5, 2), 4, 4, () => 1);
+    assert.equal(report.consistent, false);
+    assert.deepEqual(report.consistencyViolations.at(-1), { x: 4, y: 4, nx: 4, ny: 4, h: 1, hNext: 0, stepCost: 0 });
+  });
+});
+
+describe('informed searches with a chosen heuristic', () => {
+  it('keep finding the cheapest route with every built-in heuristic', () => {
+    for (const seed of SEEDS) {
+      const maze = randomMaze(9, 7, seed);
+      const expected = cheapestCost(maze, [0, 0], [8, 6]);
+      for (const { id } of getHeuristics()) {
+        for (const method of ['ASTAR', 'IDA_STAR', 'BIDIRECTIONAL_ASTAR'] as const) {
+          assert.equal(search(0, 0, 8, 6, method, maze, { heuristic: id }).stats.pathCost, expected, `${method} with ${id} in maze ${seed}`);
+        }
+      }
+    }
+  });
+
+  it('expand fewer cells with the oracle than with no heuristic at all', () => {
+    const maze = randomMaze(12, 10, 1);
+    const oracle = search(0, 0, 11, 9, 'ASTAR', maze, { heuristic: 'oracle' });
+    const zero = search(0, 0, 11, 9, 'ASTAR', maze, { heuristic: 'zero' });
+    assert.ok(oracle.found);
+    assert.equal(oracle.stats.pathCost, zero.stats.pathCost);
+    assert.ok(oracle.stats.expanded < zero.stats.expanded);
+  });
+});
+
+describe('eight-way moves', () => {
+  it('give the cheapest cost from every cell to the target', () => {
+    for (const seed of SEEDS) {
+      const maze = randomMaze(7, 5, seed);
+      const distance = trueDistances(maze, 6, 4, true);
+      for (let y = 0; y < 5; y++) {
+        for (let x = 0; x < 7; x++) {
+          const expected = cheapestCost(maze, [x, y], [6, 4], true);
+          assert.ok(distance[y * 7 + x] === expected || Math.abs(distance[y * 7 + x] - expected) < 1e-9, `(${x}, ${y}) in maze ${seed}`);
+        }
+      }
+    }
+  });
+
+  it('keep the octile and oracle heuristics admissible and consistent', () => {
+    for (const seed of SEEDS) {
+      const maze = randomMaze(9, 7, seed);
+      for (const id of ['octile', 'oracle']) {
+        const report = checkHeuristic(maze, 8, 6, id, true);
+        assert.ok(report.admissible && report.consistent, `${id} in maze ${seed}`);
+      }
+    }
+  });
+
+  it('let bidirectional A* use the oracle without a search per lookup', () => {
+    const maze = randomMaze(120, 120, 1);
+    const started = performance.now();
+    const result = search(0, 0, 119, 119, 'BIDIRECTIONAL_ASTAR', maze, { heuristic: 'oracle', diagonal: true });
+    assert.ok(performance.now() - started < 2000, 'oracle lookups took too long');
+    const expected = search(0, 0, 119, 119, 'DIJKSTRA', maze, { diagonal: true });
+    assert.equal(result.found, expected.found);
+    assert.ok(Math.abs(result.stats.pathCost - expected.stats.pathCost) < 1e-9);
+  });
+});
@@ -0,0 +1,302 @@
+/**
+ * @fileOverview Heuristics for the informed searches in pathfinder.ts, and a checker that compares a
+ * heuristic with the true distances in a maze.
+ *
+ * - registerHeuristic - Adds (or replaces) a heuristic in the registry.
+ * - getHeuristics - Returns every registered heuristic, for dynamic UI generation.
+ * - resolveHeuristic - Turns a heuristic id or user-supplied function into a ready-to-use function.
+ * - checkHeuristic - Reports admissibility and consistency violations against the true distances.
+ * - trueDistances - Exact cost from every cell to a target (BFS distances on unweighted four-way mazes).
+ * - DEFAULT_HEURISTIC - Id of the heuristic used when none is given.
+ * - HeuristicFunction - Type of a heuristic: estimated cost from (x, y) to (endX, endY).
+ * - HeuristicDescriptor - Interface for a registry entry.
+ * - HeuristicReport - Interface for the object returned by checkHeuristic.
+ */
+
+import { cellCost, minCellCost, openNeighbours } from '@/graph';
+import { gridSize, type GridMaze } from '@/packed-maze';
+import { IndexedMinHeap } from '@/lib/indexed-min-heap';
+
+/**
+ * Estimated cost of moving from (x, y) to (endX, endY).
+ */
+export type HeuristicFunction = (x: number, y: number, endX: number, endY: number) => number;
+
+/**
+ * What a heuristic may look at when it is created for a search.
+ */
+export interface HeuristicContext {
+  maze: GridMaze;
+  minCost: number; // cheapest cell cost in the maze; distance-based heuristics scale by it to stay admissible
+  diagonal?: boolean; // the search also takes diagonal steps, costing √2 times the entered cell
+}
+
+/**
+ * A registry entry. `create` is called once per search, so it may precompute tables.
+ */
+export interface HeuristicDescriptor {
+  id: string;
+  label: string;
+  description: string;
+  create: (context: HeuristicContext) => HeuristicFunction;
+}
+
+/**
+ * A cell where h overestimates the true remaining cost.
+ */
+export interface AdmissibilityViolation {
+  x: number;
+  y: number;
+  h: number;
+  trueCost: number;
+}
+
+/**
+ * A move (x, y) -> (nx, ny) across which h drops by more than the move costs.
+ */
+export interface ConsistencyViolation {
+  x: number;
+  y: number;
+  nx: number;
+  ny: number;
+  h: number;
+  hNext: number;
+  stepCost: number;
+}
+
+/**
+ * Result of checkHeuristic. Violation lists are capped at MAX_REPORTED_VIOLATIONS; the counts are not.
+ */
+export interface HeuristicReport {
+  admissible: boolean;
+  consistent: boolean;
+  admissibilityViolationCount: number;
+  consistencyViolationCount: number;
+  admissibilityViolations: AdmissibilityViolation[];
+  consistencyViolations: ConsistencyViolation[];
+  checkedCells: number; // cells that can reach the exit
+}
+
+/**
+ * Id of the heuristic used when none is given.
+ */
+export const DEFAULT_HEURISTIC = 'manhattan';
+
+const MAX_REPORTED_VIOLATIONS = 50;
+
+const registry = new Map<string, HeuristicDescriptor>();
+
+/**
+ * Adds a heuristic to the registry, replacing any entry with the same id.
+ * @param descriptor The heuristic's id, labels and factory.
+ */
+export function registerHeuristic(descriptor: HeuristicDescriptor): void {
+  registry.set(descriptor.id, descriptor);
+}
+
+/**
+ * Returns the registered heuristics, in registration order, for dynamic UI generation.
+ */
+export function getHeuristics(): HeuristicDescriptor[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Turns a heuristic id or a user-supplied function into a function for one search.
+ * @param heuristic Registered id, a custom function, or undefined for DEFAULT_HEURISTIC.
+ * @param context   Maze information for heuristics that precompute.
+ * @returns          The heuristic function. Unknown ids fall back to DEFAULT_HEURISTIC.
+ */
+export function resolveHeuristic(heuristic: string | HeuristicFunction | undefined, context: HeuristicContext): HeuristicFunction {
+  if (typeof heuristic === 'function') return heuristic;
+  const descriptor = registry.get(heuristic ?? DEFAULT_HEURISTIC) ?? registry.get(DEFAULT_HEURISTIC)!;
+  return descriptor.create(context);
+}
+
+/**
+ * Computes the exact cost of the cheapest route from every cell to (endX, endY), where moving
+ * into a cell costs its `cost` (1 by default). On an unweighted maze these are the BFS distances.
+ * @param diagonal Also allow diagonal steps through open corners, at √2 times the entered cell's cost.
+ * @returns Distances indexed by `y * width + x`; Infinity for cells that cannot reach the target.
+ */
+export function trueDistances(maze: GridMaze, endX: number, endY: number, diagonal = false): Float64Array {
+  return cheapestCosts(maze, endY * gridSize(maze)[0] + endX, diagonal, false);
+}
+
+/**
+ * Dijkstra from `source` over the whole maze. Walls are shared between neighbours, and a diagonal step
+ * is open in both directions or in neither, so every open move can be made both ways: charging the cell
+ * each step enters gives the costs from the source, charging the cell it leaves gives the costs of the
+ * same moves reversed, i.e. to the source.
+ * @returns Costs indexed by `y * width + x`; Infinity for cells cut off from the source.
+ */
+function cheapestCosts(maze: GridMaze, source: number, diagonal: boolean, fromSource: boolean): Float64Array {
+  const [width, height] = gridSize(maze);
+  const size = width * height;
+  const distance = new Float64Array(size).fill(Infinity);
+  const queue = new IndexedMinHeap(size);
+  const neighbours: number[] = [];
+
+  distance[source] = 0;
+  queue.push(source, 0);
+  while (!queue.isEmpty()) {
+    const current = queue.pop();
+    const x = current % width;
+    const y = (current - x) / width;
+    for (const next of openNeighbours(maze, current, neighbours, diagonal)) {
+      const stepFactor = next % width !== x && Math.floor(next / width) !== y ? Math.SQRT2 : 1;
+      const viaCurrent = distance[current] + cellCost(maze, fromSource ? next : current) * stepFactor;
+      if (viaCurrent < distance[next]) {
+        distance[next] = viaCurrent;
+        queue.push(next, viaCurrent);
+      }
+    }
+  }
+  return distance;
+}
+
+/**
+ * Compares a heuristic with the true distances to the exit on a maze.
+ * Admissible: h(n) <= true cost from n for every cell that can reach the exit.
+ * Consistent: h(n) <= cost(n -> m) + h(m) for every open move, and h(exit) = 0.
+ * @param maze      2D array of MazeCell or a PackedMaze describing walls.
+ * @param endX      Exit column index.
+ * @param endY      Exit row index.
+ * @param heuristic Registered id or custom function.
+ * @param diagonal  Check against eight-way moves instead of four-way ones.
+ * @returns          The violation report.
+ */
+export function checkHeuristic(
+  maze: GridMaze,
+  endX: number,
+  endY: number,
+  heuristic: string | HeuristicFunction,
+  diagonal = false
+): HeuristicReport {
+  const [width, height] = gridSize(maze);
+  const minCost = minCellCost(maze);
+  const h = resolveHeuristic(heuristic, { maze, minCost, diagonal });
+  const distance = trueDistances(maze, endX, endY, diagonal);
+  // Tolerance for floating-point heuristics such as Euclidean distance
+  const EPSILON = 1e-9;
+  const neighbours: number[] = [];
+
+  const report: HeuristicReport = {
+    admissible: true,
+    consistent: true,
+    admissibilityViolationCount: 0,
+    consistencyViolationCount: 0,
+    admissibilityViolations: [],
+    consistencyViolations: [],
+    checkedCells: 0,
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const trueCost = distance[y * width + x];
+      if (trueCost === Infinity) continue;
+      report.checkedCells++;
+      const hHere = h(x, y, endX, endY);
+
+      if (hHere > trueCost + EPSILON) {
+        report.admissibilityViolationCount++;
+        if (report.admissibilityViolations.length < MAX_REPORTED_VIOLATIONS) {
+          report.admissibilityViolations.push({ x, y, h: hHere, trueCost });
+        }
+      }
+
+      for (const next of openNeighbours(maze, y * width + x, neighbours, diagonal)) {
+        const nx = next % width;
+        const ny = (next - nx) / width;
+        const stepCost = cellCost(maze, next) * (nx !== x && ny !== y ? Math.SQRT2 : 1);
+        const hNext = h(nx, ny, endX, endY);
+        if (hHere > stepCost + hNext + EPSILON) {
+          report.consistencyViolationCount++;
+          if (report.consistencyViolations.length < MAX_REPORTED_VIOLATIONS) {
+            report.consistencyViolations.push({ x, y, nx, ny, h: hHere, hNext, stepCost });
+          }
+        }
+      }
+    }
+  }
+
+  const hAtExit = h(endX, endY, endX, endY);
+  if (Math.abs(hAtExit) > EPSILON) {
+    // A non-zero estimate at the exit breaks the consistency definition even without a bad move
+    report.consistencyViolationCount++;
+    if (report.consistencyViolations.length < MAX_REPORTED_VIOLATIONS) {
+      report.consistencyViolations.push({ x: endX, y: endY, nx: endX, ny: endY, h: hAtExit, hNext: 0, stepCost: 0 });
+    }
+  }
+
+  report.admissible = report.admissibilityViolationCount === 0;
+  report.consistent = report.consistencyViolationCount === 0;
+  return report;
+}
+
+registerHeuristic({
+  id: 'manhattan',
+  label: 'Manhattan',
+  description: 'Sum of the horizontal and vertical offsets. Exact on an open grid with four-way moves.',
+  create: ({ minCost }) => (x, y, endX, endY) => minCost * (Math.abs(x - endX) + Math.abs(y - endY)),
+});
+
+registerHeuristic({
+  id: 'euclidean',
+  label: 'Euclidean',
+  description: 'Straight-line distance. Admissible, but weaker than Manhattan on a four-way grid.',
+  create: ({ minCost }) => (x, y, endX, endY) => minCost * Math.hypot(x - endX, y - endY),
+});
+
+registerHeuristic({
+  id: 'octile',
+  label: 'Octile',
+  description: 'Diagonal steps cost √2, straight ones 1. Exact on an open grid with eight-way moves; use it when diagonal moves are on.',
+  create: ({ minCost }) => (x, y, endX, endY) => {
+    const dx = Math.abs(x - endX);
+    const dy = Math.abs(y - endY);
+    return minCost * (Math.max(dx, dy) + (Math.SQRT2 - 1) * Math.min(dx, dy));
+  },
+});
+
+registerHeuristic({
+  id: 'chebyshev',
+  label: 'Chebyshev',
+  description: 'Largest of the horizontal and vertical offsets. Admissible, and the weakest of the distance heuristics here.',
+  create: ({ minCost }) => (x, y, endX, endY) => minCost * Math.max(Math.abs(x - endX), Math.abs(y - endY)),
+});
+
+registerHeuristic({
+  id: 'zero',
+  label: 'Zero (Dijkstra)',
+  description: 'Always 0. Turns A* into Dijkstra\'s algorithm.',
+  create: () => () => 0,
+});
+
+registerHeuristic({
+  id: 'oracle',
+  label: 'True distance (oracle)',
+  description: 'Precomputed exact distance to the target. A* then expands only cells on optimal routes.',
+  create: ({ maze, diagonal = false }) => {
+    const [width] = gridSize(maze);
+    const toTarget = new Map<number, Float64Array>();   // cost from every cell to a target
+    const fromSource = new Map<number, Float64Array>(); // cost from a source to every cell
+    return (x, y, endX, endY) => {
+      const source = y * width + x;
+      const target = endY * width + endX;
+      const backward = toTarget.get(target);
+      if (backward) return backward[source];
+      let forward = fromSource.get(source);
+      if (!forward && toTarget.has(source)) {
+        // A source also used as a target is the fixed end of a bidirectional search, which asks for its
+        // cost to every cell in turn: one table from it answers them all
+        forward = cheapestCosts(maze, source, diagonal, true);
+        fromSource.set(source, forward);
+      }
+      if (forward) return forward[target];
+      const table = trueDistances(maze, endX, endY, diagonal);
+      toTarget.set(target, table);
+      return table[source];
+    };
+  },
+});
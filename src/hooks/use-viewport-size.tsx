@@ -0,0 +1,19 @@
+import * as React from "react"
+
+// Used until the first render in the browser, where the real size is read
+const FALLBACK_SIZE = { width: 1024, height: 768 }
+
+export function useViewportSize() {
+  const [size, setSize] = React.useState(FALLBACK_SIZE)
+
+  React.useEffect(() => {
+    const onResize = () => {
+      setSize({ width: window.innerWidth, height: window.innerHeight })
+    }
+    window.addEventListener("resize", onResize)
+    onResize()
+    return () => window.removeEventListener("resize", onResize)
+  }, [])
+
+  return size
+}
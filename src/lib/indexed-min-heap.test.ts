@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { IndexedMinHeap } from '@/lib/indexed-min-heap';
+
+// Pops every id, lowest priority first
+function drain(heap: IndexedMinHeap): number[] {
+  const ids: number[] = [];
+  while (!heap.isEmpty()) ids.push(heap.pop());
+  return ids;
+}
+
+describe('IndexedMinHeap', () => {
+  it('pops ids by priority, and ties in insertion order', () => {
+    const heap = new IndexedMinHeap(10);
+    [[4, 3], [7, 1], [2, 3], [9, 0], [5, 1]].forEach(([id, priority]) => heap.push(id, priority));
+    assert.equal(heap.size, 5);
+    assert.equal(heap.peek(), 9);
+    assert.deepEqual(drain(heap), [9, 7, 5, 4, 2]);
+    assert.equal(heap.pop(), -1);
+  });
+
+  it('lowers a priority but never raises one', () => {
+    const heap = new IndexedMinHeap(4);
+    heap.push(0, 5);
+    heap.push(1, 3);
+    assert.equal(heap.push(0, 2), true);
+    assert.equal(heap.push(1, 9), false);
+    heap.decreaseKey(1, 8);
+    heap.decreaseKey(3, 0); // Not in the heap: ignored
+    assert.equal(heap.priorityOf(0), 2);
+    assert.equal(heap.priorityOf(1), 3);
+    assert.equal(heap.priorityOf(3), Infinity);
+    assert.deepEqual(drain(heap), [0, 1]);
+  });
+
+  it('forgets popped ids, so they can be pushed again', () => {
+    const heap = new IndexedMinHeap(3);
+    heap.push(1, 1);
+    assert.equal(heap.has(1), true);
+    heap.pop();
+    assert.equal(heap.has(1), false);
+    heap.push(1, 4);
+    heap.push(2, 2);
+    assert.deepEqual(drain(heap), [2, 1]);
+  });
+
+  it('lists its ids in pop order without removing them', () => {
+    const heap = new IndexedMinHeap(6);
+    [[3, 2], [1, 5], [5, 2], [0, 1]].forEach(([id, priority]) => heap.push(id, priority));
+    assert.deepEqual(heap.toSortedArray(), [0, 3, 5, 1]);
+    assert.deepEqual(drain(heap), [0, 3, 5, 1]);
+  });
+
+  it('grows to hold ids beyond its initial capacity', () => {
+    const heap = new IndexedMinHeap(2);
+    assert.equal(heap.has(40), false);
+    [[1, 4], [40, 2], [7, 3], [0, 5]].forEach(([id, priority]) => heap.push(id, priority));
+    assert.equal(heap.has(40), true);
+    assert.equal(heap.priorityOf(1000), Infinity);
+    assert.equal(heap.remove(1000), false);
+    assert.deepEqual(drain(heap), [40, 7, 1, 0]);
+  });
+});
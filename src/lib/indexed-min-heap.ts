@@ -0,0 +1,203 @@
+/**
+ * @fileOverview An indexed binary min-heap keyed by small integer ids.
+ *
+ * - IndexedMinHeap - Priority queue with O(log n) push, pop, remove and decrease-key.
+ *
+ * Ids are non-negative integers, typically a cell index `y * width + x`. The arrays
+ * start at the given capacity and double whenever a larger id is pushed, so callers
+ * that cannot bound their ids need not reserve room for the worst case.
+ * Priorities are compared first, then an optional secondary key (for the
+ * lexicographic keys of D* Lite); entries that still tie are popped in insertion
+ * order, matching the stable array sort the search algorithms used before.
+ */
+
+export class IndexedMinHeap {
+  private heap: Int32Array;      // heap slot -> id
+  private position: Int32Array;  // id -> heap slot, -1 when absent
+  private priority: Float64Array;
+  private secondary: Float64Array;
+  private sequence: Float64Array; // insertion counter, used as tie-breaker
+  private count = 0;
+  private inserted = 0;
+
+  /**
+   * @param capacity Number of distinct ids to make room for up front.
+   */
+  constructor(capacity: number) {
+    this.heap = new Int32Array(capacity);
+    this.position = new Int32Array(capacity).fill(-1);
+    this.priority = new Float64Array(capacity);
+    this.secondary = new Float64Array(capacity);
+    this.sequence = new Float64Array(capacity);
+  }
+
+  /** Number of entries currently in the heap. */
+  get size(): number {
+    return this.count;
+  }
+
+  isEmpty(): boolean {
+    return this.count === 0;
+  }
+
+  has(id: number): boolean {
+    return id < this.position.length && this.position[id] !== -1;
+  }
+
+  /**
+   * Returns the priority stored for `id`, or Infinity if it is not in the heap.
+   */
+  priorityOf(id: number): number {
+    return this.has(id) ? this.priority[id] : Infinity;
+  }
+
+  /**
+   * Returns the secondary key stored for `id`, or Infinity if it is not in the heap.
+   */
+  secondaryOf(id: number): number {
+    return this.has(id) ? this.secondary[id] : Infinity;
+  }
+
+  /**
+   * Inserts `id`, or lowers its priority if it is already present with a higher one.
+   * @param secondary Tie-breaker compared when priorities are equal, 0 by default.
+   * @returns true if the heap changed.
+   */
+  push(id: number, priority: number, secondary = 0): boolean {
+    if (id >= this.position.length) this.grow(id + 1);
+    const slot = this.position[id];
+    if (slot !== -1) {
+      if (priority > this.priority[id] || (priority === this.priority[id] && secondary >= this.secondary[id])) return false;
+      this.priority[id] = priority;
+      this.secondary[id] = secondary;
+      this.siftUp(slot);
+      return true;
+    }
+    this.priority[id] = priority;
+    this.secondary[id] = secondary;
+    this.sequence[id] = this.inserted++;
+    this.heap[this.count] = id;
+    this.position[id] = this.count;
+    this.siftUp(this.count++);
+    return true;
+  }
+
+  /**
+   * Lowers the priority of an id already in the heap. Raising it is ignored.
+   */
+  decreaseKey(id: number, priority: number): void {
+    if (this.has(id)) this.push(id, priority);
+  }
+
+  /**
+   * Removes `id` wherever it is in the heap.
+   * @returns true if it was present.
+   */
+  remove(id: number): boolean {
+    if (!this.has(id)) return false;
+    const slot = this.position[id];
+    this.position[id] = -1;
+    this.count--;
+    if (slot < this.count) {
+      const last = this.heap[this.count];
+      this.heap[slot] = last;
+      this.position[last] = slot;
+      // The moved entry may belong above or below its new slot
+      this.siftUp(slot);
+      this.siftDown(this.position[last]);
+    }
+    return true;
+  }
+
+  /**
+   * Removes and returns the id with the lowest priority, or -1 if the heap is empty.
+   */
+  pop(): number {
+    if (this.count === 0) return -1;
+    const top = this.heap[0];
+    this.position[top] = -1;
+    this.count--;
+    if (this.count > 0) {
+      const last = this.heap[this.count];
+      this.heap[0] = last;
+      this.position[last] = 0;
+      this.siftDown(0);
+    }
+    return top;
+  }
+
+  /**
+   * Returns the id with the lowest priority without removing it, or -1 if empty.
+   */
+  peek(): number {
+    return this.count === 0 ? -1 : this.heap[0];
+  }
+
+  /**
+   * Returns the ids currently in the heap in the order `pop` would return them.
+   * Copies and sorts the heap, so it is meant for snapshots rather than the search loop.
+   */
+  toSortedArray(): number[] {
+    return Array.from(this.heap.subarray(0, this.count)).sort((a, b) => (this.less(a, b) ? -1 : this.less(b, a) ? 1 : 0));
+  }
+
+  // Doubles the arrays until ids below `needed` fit
+  private grow(needed: number): void {
+    let capacity = Math.max(1, this.position.length);
+    while (capacity < needed) capacity *= 2;
+    const resize = <T extends Int32Array | Float64Array>(array: T, fill = 0): T => {
+      const next = new (array.constructor as new (length: number) => T)(capacity);
+      next.fill(fill);
+      next.set(array);
+      return next;
+    };
+    this.heap = resize(this.heap);
+    this.position = resize(this.position, -1);
+    this.priority = resize(this.priority);
+    this.secondary = resize(this.secondary);
+    this.sequence = resize(this.sequence);
+  }
+
+  private less(a: number, b: number): boolean {
+    const pa = this.priority[a];
+    const pb = this.priority[b];
+    if (pa !== pb) return pa < pb;
+    const sa = this.secondary[a];
+    const sb = this.secondary[b];
+    return sa < sb || (sa === sb && this.sequence[a] < this.sequence[b]);
+  }
+
+  private siftUp(slot: number): void {
+    const id = this.heap[slot];
+    while (slot > 0) {
+      const parentSlot = (slot - 1) >> 1;
+      const parent = this.heap[parentSlot];
+      if (!this.less(id, parent)) break;
+      this.heap[slot] = parent;
+      this.position[parent] = slot;
+      slot = parentSlot;
+    }
+    this.heap[slot] = id;
+    this.position[id] = slot;
+  }
+
+  private siftDown(slot: number): void {
+    const id = this.heap[slot];
+    const half = this.count >> 1;
+    while (slot < half) {
+      let childSlot = 2 * slot + 1;
+      let child = this.heap[childSlot];
+      const rightSlot = childSlot + 1;
+      if (rightSlot < this.count && this.less(this.heap[rightSlot], child)) {
+        childSlot = rightSlot;
+        child = this.heap[rightSlot];
+      }
+      if (!this.less(child, id)) break;
+      this.heap[slot] = child;
+      this.position[child] = slot;
+      slot = childSlot;
+    }
+    this.heap[slot] = id;
+    this.position[id] = slot;
+  }
+}
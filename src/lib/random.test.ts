@@ -0,0 +1,30 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRandom, parseSeed } from '@/lib/random';
+
+// The first `count` numbers a generator gives
+function take(random: () => number, count: number): number[] {
+  return Array.from({ length: count }, random);
+}
+
+describe('createRandom', () => {
+  it('repeats its sequence for a seed and stays in [0, 1)', () => {
+    const numbers = take(createRandom(99), 1000);
+    assert.deepEqual(take(createRandom(99), 1000), numbers);
+    assert.ok(numbers.every(n => n >= 0 && n < 1));
+    assert.notDeepEqual(take(createRandom(100), 10), numbers.slice(0, 10));
+  });
+
+  it('reduces seeds to unsigned 32-bit integers', () => {
+    assert.deepEqual(take(createRandom(2 ** 32 + 5), 5), take(createRandom(5), 5));
+    assert.deepEqual(take(createRandom(-1), 5), take(createRandom(2 ** 32 - 1), 5));
+  });
+});
+
+describe('parseSeed', () => {
+  it('accepts whole numbers below 2^32 and nothing else', () => {
+    assert.equal(parseSeed(' 42 '), 42);
+    assert.equal(parseSeed('4294967295'), 2 ** 32 - 1);
+    for (const text of ['', '4294967296', '-1', '1.5', '1e3', 'abc']) assert.equal(parseSeed(text), null, text);
+  });
+});
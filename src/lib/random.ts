@@ -0,0 +1,45 @@
+/**
+ * @fileOverview A small seedable pseudo-random number generator, so mazes can be reproduced.
+ *
+ * - createRandom - Returns a Math.random replacement driven by a 32-bit seed (mulberry32).
+ * - randomSeed - Picks a fresh seed.
+ * - parseSeed - Reads a seed typed by a player, or returns null.
+ *
+ * Seeds are unsigned 32-bit integers. The same seed always produces the same sequence, on every
+ * platform, since the generator only uses 32-bit integer arithmetic.
+ */
+
+const SEED_RANGE = 2 ** 32;
+
+/**
+ * Returns a generator of floats in [0, 1), like Math.random, fully determined by `seed`.
+ * @param seed Any number; it is reduced to an unsigned 32-bit integer.
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / SEED_RANGE;
+  };
+}
+
+/**
+ * Picks a new seed with Math.random.
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * SEED_RANGE);
+}
+
+/**
+ * Reads a seed from text.
+ * @returns The seed, or null unless the text is a whole number in [0, 2^32).
+ */
+export function parseSeed(text: string): number | null {
+  const trimmed = text.trim();
+  if (!/^\d+$/.test(trimmed)) return null;
+  const seed = Number(trimmed);
+  return seed < SEED_RANGE ? seed : null;
+}
@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRandom } from '@/lib/random';
+import { getMazeAlgorithms, GROWING_TREE_STRATEGIES, type MazeAlgorithm } from '@/maze-algorithms';
+import { createPackedMaze, unpackMaze } from '@/packed-maze';
+import type { Cell } from '@/test-mazes';
+
+const SIZES = [[1, 1], [1, 6], [7, 1], [2, 2], [9, 7], [16, 12]];
+
+// Carves a fresh packed grid with `algorithm`, starting from the corner the game would pick
+function carve(algorithm: MazeAlgorithm, width: number, height: number, seed: number, growingTreeStrategy = GROWING_TREE_STRATEGIES[0].id): Cell[][] {
+  const maze = createPackedMaze(width, height);
+  algorithm.carve({ maze, random: createRandom(seed), start: [0, 0], growingTreeStrategy });
+  return unpackMaze(maze);
+}
+
+// Checks that both sides of every wall agree, the border is closed, and the passages form a spanning tree
+function assertPerfect(maze: Cell[][], message: string): void {
+  const height = maze.length;
+  const width = maze[0].length;
+  let passages = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const cell = maze[y][x];
+      assert.ok((x > 0 || cell.west) && (y > 0 || cell.north) && (x < width - 1 || cell.east) && (y < height - 1 || cell.south), `${message}: open border at (${x}, ${y})`);
+      if (x < width - 1) assert.equal(cell.east, maze[y][x + 1].west, `${message}: one-sided wall east of (${x}, ${y})`);
+      if (y < height - 1) assert.equal(cell.south, maze[y + 1][x].north, `${message}: one-sided wall south of (${x}, ${y})`);
+      passages += Number(!cell.east) + Number(!cell.south);
+    }
+  }
+  assert.equal(passages, width * height - 1, `${message}: ${passages < width * height - 1 ? 'disconnected' : 'has a loop'}`);
+
+  // With exactly n - 1 passages, reaching every cell means there are no loops either
+  const seen = new Set(['0,0']);
+  const stack: [number, number][] = [[0, 0]];
+  while (stack.length > 0) {
+    const [x, y] = stack.pop()!;
+    const cell = maze[y][x];
+    const moves: [boolean | undefined, number, number][] = [[cell.north, 0, -1], [cell.east, 1, 0], [cell.south, 0, 1], [cell.west, -1, 0]];
+    for (const [wall, dx, dy] of moves) {
+      if (wall || seen.has(`${x + dx},${y + dy}`)) continue;
+      seen.add(`${x + dx},${y + dy}`);
+      stack.push([x + dx, y + dy]);
+    }
+  }
+  assert.equal(seen.size, width * height, `${message}: disconnected`);
+}
+
+describe('maze algorithms', () => {
+  it('each carve a perfect maze: every cell reachable by exactly one route', () => {
+    for (const algorithm of getMazeAlgorithms()) {
+      for (const [width, height] of SIZES) {
+        for (let seed = 1; seed <= 5; seed++) assertPerfect(carve(algorithm, width, height, seed), `${algorithm.id} ${width}x${height} seed ${seed}`);
+      }
+    }
+  });
+
+  it('carve a perfect maze with every growing tree strategy', () => {
+    const growingTree = getMazeAlgorithms().find(algorithm => algorithm.id === 'growing-tree');
+    assert.ok(growingTree);
+    for (const { id } of GROWING_TREE_STRATEGIES) {
+      for (let seed = 1; seed <= 5; seed++) assertPerfect(carve(growingTree, 12, 9, seed, id), `growing tree ${id} seed ${seed}`);
+    }
+  });
+
+  it('carve the same maze for the same seed', () => {
+    for (const algorithm of getMazeAlgorithms()) assert.deepEqual(carve(algorithm, 9, 7, 3), carve(algorithm, 9, 7, 3), algorithm.id);
+  });
+});
@@ -0,0 +1,577 @@
+/**
+ * @fileOverview Maze generation algorithms for square cells, behind one interface so the game can offer
+ * them all.
+ *
+ * - registerMazeAlgorithm - Adds (or replaces) an algorithm in the registry.
+ * - getMazeAlgorithms - Returns every registered algorithm, for dynamic UI generation.
+ * - getMazeAlgorithm - Looks up an algorithm by id.
+ * - DEFAULT_MAZE_ALGORITHM - Id of the algorithm used when none is given.
+ * - GROWING_TREE_STRATEGIES - The ways the growing tree algorithm can pick its next cell.
+ * - MazeAlgorithm - Interface for a registry entry.
+ * - CarveContext - Interface for what an algorithm is given to carve.
+ *
+ * Every algorithm carves a perfect maze (exactly one route between any two cells) into a grid whose walls
+ * start closed, drawing all randomness from `random`, so a seed reproduces the maze. They differ in
+ * texture: the backtracker and hunt-and-kill make long winding corridors with few dead ends, which suit
+ * DFS; Prim's and the growing tree's random strategy make short bushy branches and many dead ends, which
+ * suit BFS; Kruskal's, Wilson's and Aldous–Broder are unbiased; binary tree and sidewinder leave straight
+ * open runs along the top edge; recursive division leaves long straight walls.
+ *
+ * Algorithms carve straight into a PackedMaze and keep their stacks and lists in typed arrays or flat
+ * number arrays, never the call stack, so a 1000x1000 maze takes under a second with all but two of
+ * them. Those two are outside that guarantee and take a few seconds at that size: Aldous–Broder is a
+ * random walk that must stumble on every cell, so its running time grows faster than the grid, and
+ * hunt-and-kill rescans the grid for a new starting cell each time its walk gets stuck.
+ */
+
+import type { PackedMaze } from '@/packed-maze';
+
+/**
+ * What an algorithm is given: a grid with every wall closed, and where to start.
+ */
+export interface CarveContext {
+  maze: PackedMaze;
+  random: () => number;       // seeded replacement for Math.random
+  start: [number, number];    // the player's start; algorithms that grow from one cell grow from here
+  growingTreeStrategy: string; // id from GROWING_TREE_STRATEGIES, used by the growing tree
+}
+
+/**
+ * A registry entry.
+ */
+export interface MazeAlgorithm {
+  id: string;
+  label: string;
+  description: string;
+  carve: (context: CarveContext) => void;
+}
+
+/**
+ * Id of the algorithm used when none is given.
+ */
+export const DEFAULT_MAZE_ALGORITHM = 'backtracker';
+
+/**
+ * How the growing tree picks the active cell to extend. Newest gives a backtracker, random gives Prim's.
+ */
+export const GROWING_TREE_STRATEGIES = [
+  { id: 'newest', label: 'Newest (long corridors)' },
+  { id: 'random', label: 'Random (short branches)' },
+  { id: 'mixed', label: 'Newest or random, half and half' },
+  { id: 'oldest', label: 'Oldest (straight spokes)' },
+  { id: 'middle', label: 'Middle' },
+];
+
+const DX = [0, 1, 0, -1];
+const DY = [-1, 0, 1, 0];
+const NORTH = 0;
+const EAST = 1;
+const SOUTH = 2;
+
+const registry = new Map<string, MazeAlgorithm>();
+
+/**
+ * Adds an algorithm to the registry, replacing any entry with the same id.
+ * @param algorithm The algorithm's id, labels and carve function.
+ */
+export function registerMazeAlgorithm(algorithm: MazeAlgorithm): void {
+  registry.set(algorithm.id, algorithm);
+}
+
+/**
+ * Returns the registered algorithms, in registration order, for dynamic UI generation.
+ */
+export function getMazeAlgorithms(): MazeAlgorithm[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Looks up an algorithm. Unknown ids fall back to DEFAULT_MAZE_ALGORITHM.
+ */
+export function getMazeAlgorithm(id: string): MazeAlgorithm {
+  return registry.get(id) ?? registry.get(DEFAULT_MAZE_ALGORITHM)!;
+}
+
+/**
+ * Index of the cell next to `index` in `direction`, or -1 past the edge.
+ */
+function neighbourIndex(width: number, height: number, index: number, direction: number): number {
+  const x = index % width + DX[direction];
+  const y = Math.floor(index / width) + DY[direction];
+  return x >= 0 && x < width && y >= 0 && y < height ? y * width + x : -1;
+}
+
+/**
+ * Opens or closes the wall on `direction` of a cell and the matching wall of its neighbour.
+ */
+function setWall({ width, walls }: PackedMaze, index: number, direction: number, closed: boolean): void {
+  const next = index + DX[direction] + DY[direction] * width;
+  const wall = 1 << direction;
+  const opposite = 1 << ((direction + 2) % 4);
+  if (closed) {
+    walls[index] |= wall;
+    walls[next] |= opposite;
+  } else {
+    walls[index] &= ~wall;
+    walls[next] &= ~opposite;
+  }
+}
+
+const shuffled = [0, 1, 2, 3]; // scratch for shuffledDirections
+
+/**
+ * The four directions in random order, packed two bits each, first direction lowest.
+ */
+function shuffledDirections(random: () => number): number {
+  shuffled[0] = 0; shuffled[1] = 1; shuffled[2] = 2; shuffled[3] = 3;
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled[0] | (shuffled[1] << 2) | (shuffled[2] << 4) | (shuffled[3] << 6);
+}
+
+/**
+ * Directions from `index` to neighbours whose `state` equals `wanted`.
+ */
+function directionsTo(width: number, height: number, state: Uint8Array, index: number, wanted: number): number[] {
+  const directions: number[] = [];
+  for (let direction = 0; direction < 4; direction++) {
+    const next = neighbourIndex(width, height, index, direction);
+    if (next !== -1 && state[next] === wanted) directions.push(direction);
+  }
+  return directions;
+}
+
+/**
+ * A random direction from `index` that stays inside the grid.
+ */
+function randomStep(width: number, height: number, index: number, random: () => number): number {
+  for (;;) {
+    const direction = Math.floor(random() * 4);
+    if (neighbourIndex(width, height, index, direction) !== -1) return direction;
+  }
+}
+
+const pick = <T>(items: T[], random: () => number): T => items[Math.floor(random() * items.length)];
+
+registerMazeAlgorithm({
+  id: 'backtracker',
+  label: 'Recursive backtracker',
+  description: 'A random depth-first walk that backs up at dead ends. Long winding corridors and few dead ends.',
+  carve: ({ maze, random, start }) => {
+    const { width, height } = maze;
+    const visited = new Uint8Array(width * height);
+    // One frame per cell on the current path: the cell, its shuffled directions and how many are tried
+    const stackCell = new Int32Array(width * height);
+    const stackOrder = new Uint8Array(width * height);
+    const stackTried = new Uint8Array(width * height);
+    let depth = 0;
+    const enter = (index: number) => {
+      visited[index] = 1;
+      stackCell[depth] = index;
+      stackOrder[depth] = shuffledDirections(random);
+      stackTried[depth] = 0;
+      depth++;
+    };
+    enter(start[1] * width + start[0]);
+    while (depth > 0) {
+      const top = depth - 1;
+      if (stackTried[top] === 4) {
+        depth--;
+        continue;
+      }
+      const direction = (stackOrder[top] >> (2 * stackTried[top]++)) & 3;
+      const index = stackCell[top];
+      const next = neighbourIndex(width, height, index, direction);
+      if (next !== -1 && !visited[next]) {
+        setWall(maze, index, direction, false);
+        enter(next);
+      }
+    }
+  },
+});
+
+registerMazeAlgorithm({
+  id: 'prim',
+  label: "Prim's",
+  description: 'Grows from the start by joining a random frontier cell each step. Short branches and many dead ends, radiating from the start.',
+  carve: ({ maze, random, start }) => {
+    const { width, height } = maze;
+    const OUT = 0, FRONTIER = 1, IN = 2;
+    const state = new Uint8Array(width * height);
+    const frontier: number[] = [];
+    const join = (index: number) => {
+      state[index] = IN;
+      for (const direction of directionsTo(width, height, state, index, OUT)) {
+        const next = neighbourIndex(width, height, index, direction);
+        state[next] = FRONTIER;
+        frontier.push(next);
+      }
+    };
+    join(start[1] * width + start[0]);
+    while (frontier.length > 0) {
+      const i = Math.floor(random() * frontier.length);
+      const index = frontier[i];
+      frontier[i] = frontier[frontier.length - 1];
+      frontier.pop();
+      setWall(maze, index, pick(directionsTo(width, height, state, index, IN), random), false);
+      join(index);
+    }
+  },
+});
+
+registerMazeAlgorithm({
+  id: 'kruskal',
+  label: "Kruskal's",
+  description: 'Removes walls in random order whenever they separate two unconnected regions. Unbiased-looking, with many short dead ends.',
+  carve: ({ maze, random }) => {
+    const { width, height } = maze;
+    // Edge 2 * index is the cell's east wall, 2 * index + 1 its south wall
+    const edges: number[] = [];
+    for (let index = 0; index < width * height; index++) {
+      if (index % width < width - 1) edges.push(2 * index);
+      if (index + width < width * height) edges.push(2 * index + 1);
+    }
+    for (let i = edges.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [edges[i], edges[j]] = [edges[j], edges[i]];
+    }
+
+    const parent = new Int32Array(width * height).map((_, i) => i);
+    const find = (index: number) => {
+      while (parent[index] !== index) {
+        parent[index] = parent[parent[index]];
+        index = parent[index];
+      }
+      return index;
+    };
+    for (const edge of edges) {
+      const index = edge >> 1;
+      const direction = edge & 1 ? SOUTH : EAST;
+      const a = find(index);
+      const b = find(neighbourIndex(width, height, index, direction));
+      if (a === b) continue;
+      parent[a] = b;
+      setWall(maze, index, direction, false);
+    }
+  },
+});
+
+registerMazeAlgorithm({
+  id: 'wilson',
+  label: "Wilson's",
+  description: 'Loop-erased random walks until every cell joins the maze. Every possible maze is equally likely.',
+  carve: ({ maze, random, start }) => {
+    const { width, height } = maze;
+    const inMaze = new Uint8Array(width * height);
+    const walkDirection = new Uint8Array(width * height); // last direction the current walk left each cell by
+    inMaze[start[1] * width + start[0]] = 1;
+    for (let cell = 0; cell < width * height; cell++) {
+      if (inMaze[cell]) continue;
+      // Overwriting the direction on a revisit erases the loop the walk just made
+      for (let index = cell; !inMaze[index];) {
+        walkDirection[index] = randomStep(width, height, index, random);
+        index = neighbourIndex(width, height, index, walkDirection[index]);
+      }
+      for (let index = cell; !inMaze[index];) {
+        inMaze[index] = 1;
+        setWall(maze, index, walkDirection[index], false);
+        index = neighbourIndex(width, height, index, walkDirection[index]);
+      }
+    }
+  },
+});
+
+registerMazeAlgorithm({
+  id: 'aldous-broder',
+  label: 'Aldous–Broder',
+  description: 'One random walk that carves into every cell it reaches first. Every possible maze is equally likely, but slow on big grids.',
+  carve: ({ maze, random, start }) => {
+    const { width, height } = maze;
+    const visited = new Uint8Array(width * height);
+    let index = start[1] * width + start[0];
+    visited[index] = 1;
+    for (let remaining = width * height - 1; remaining > 0;) {
+      const direction = randomStep(width, height, index, random);
+      const next = neighbourIndex(width, height, index, direction);
+      if (!visited[next]) {
+        visited[next] = 1;
+        setWall(maze, index, direction, false);
+        remaining--;
+      }
+      index = next;
+    }
+  },
+});
+
+registerMazeAlgorithm({
+  id: 'eller',
+  label: "Eller's",
+  description: 'Carves one row at a time, tracking which cells are already connected. Mostly horizontal passages.',
+  carve: ({ maze, random }) => {
+    const { width, height } = maze;
+    let row = new Int32Array(width); // set of each cell in the current row, 0 for none yet
+    let nextSet = 1;
+    // Joined sets point at the set they were merged into, so a join costs nothing per cell
+    const mergedInto = new Int32Array(width * height + 1).map((_, i) => i);
+    const find = (set: number) => {
+      while (mergedInto[set] !== set) {
+        mergedInto[set] = mergedInto[mergedInto[set]];
+        set = mergedInto[set];
+      }
+      return set;
+    };
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (!row[x]) row[x] = nextSet++;
+      }
+      // Join neighbouring sets at random; the last row joins them all
+      for (let x = 0; x < width - 1; x++) {
+        const left = find(row[x]);
+        const right = find(row[x + 1]);
+        if (left === right || (y < height - 1 && random() < 0.5)) continue;
+        setWall(maze, y * width + x, EAST, false);
+        mergedInto[right] = left;
+      }
+      if (y === height - 1) break;
+
+      // Every set continues down at least once
+      const members = new Map<number, number[]>();
+      for (let x = 0; x < width; x++) {
+        const set = find(row[x]);
+        const xs = members.get(set);
+        if (xs) xs.push(x);
+        else members.set(set, [x]);
+      }
+      const below = new Int32Array(width);
+      for (const [set, xs] of members) {
+        const down = xs.filter(() => random() < 0.5);
+        if (down.length === 0) down.push(pick(xs, random));
+        for (const x of down) {
+          setWall(maze, y * width + x, SOUTH, false);
+          below[x] = set;
+        }
+      }
+      row = below;
+    }
+  },
+});
+
+registerMazeAlgorithm({
+  id: 'recursive-division',
+  label: 'Recursive division',
+  description: 'Starts open and splits chambers with walls that each have one gap. Long straight walls and boxy rooms.',
+  carve: ({ maze, random }) => {
+    const { width, height } = maze;
+    for (let index = 0; index < width * height; index++) {
+      if (index % width < width - 1) setWall(maze, index, EAST, false);
+      if (index + width < width * height) setWall(maze, index, SOUTH, false);
+    }
+    const chambers: [number, number, number, number][] = [[0, 0, width, height]]; // x, y, width, height
+    while (chambers.length > 0) {
+      const [x, y, w, h] = chambers.pop()!;
+      if (w < 2 || h < 2) continue;
+      const horizontal = h > w || (h === w && random() < 0.5);
+      if (horizontal) {
+        // A wall under row `wallY`, open at column `gap`
+        const wallY = y + Math.floor(random() * (h - 1));
+        const gap = x + Math.floor(random() * w);
+        for (let cx = x; cx < x + w; cx++) {
+          if (cx !== gap) setWall(maze, wallY * width + cx, SOUTH, true);
+        }
+        chambers.push([x, y, w, wallY - y + 1], [x, wallY + 1, w, y + h - wallY - 1]);
+      } else {
+        const wallX = x + Math.floor(random() * (w - 1));
+        const gap = y + Math.floor(random() * h);
+        for (let cy = y; cy < y + h; cy++) {
+          if (cy !== gap) setWall(maze, cy * width + wallX, EAST, true);
+        }
+        chambers.push([x, y, wallX - x + 1, h], [wallX + 1, y, x + w - wallX - 1, h]);
+      }
+    }
+  },
+});
+
+/**
+ * The growing tree's active cells, read and removed by position in the list.
+ */
+interface ActiveCells {
+  count: number;
+  at(position: number): number;
+  remove(position: number): void;
+  push(index: number): void;
+}
+
+/**
+ * Active cells in a flat array. Removing from either end keeps the order; removing from the middle
+ * moves the newest cell into the gap, which only random picks can afford.
+ */
+function arrayCells(capacity: number): ActiveCells {
+  const cells = new Int32Array(capacity);
+  let head = 0;
+  let end = 0;
+  return {
+    get count() { return end - head; },
+    at: position => cells[head + position],
+    remove(position) {
+      if (position === end - head - 1) end--;
+      else if (position === 0) head++;
+      else cells[head + position] = cells[--end];
+    },
+    push(index) { cells[end++] = index; },
+  };
+}
+
+/**
+ * Active cells kept oldest first. Each cell takes the next slot as it is added, and a Fenwick tree
+ * counting the slots still active finds the one at any position, or removes it, in O(log n).
+ */
+function orderedCells(capacity: number): ActiveCells {
+  const slots = new Int32Array(capacity);
+  const tree = new Int32Array(capacity + 1);
+  const topStep = 2 ** Math.floor(Math.log2(Math.max(1, capacity)));
+  let added = 0;
+  let count = 0;
+  let lastPosition = -1; // the position at() read last, and its slot, as remove() usually follows it
+  let lastSlot = -1;
+  const update = (slot: number, delta: number) => {
+    for (let i = slot + 1; i <= capacity; i += i & -i) tree[i] += delta;
+  };
+  // Slot of the active cell with `position` active cells before it
+  const slotAt = (position: number) => {
+    let slot = 0;
+    for (let step = topStep; step > 0; step >>= 1) {
+      if (slot + step <= capacity && tree[slot + step] <= position) {
+        slot += step;
+        position -= tree[slot];
+      }
+    }
+    return slot;
+  };
+  return {
+    get count() { return count; },
+    at(position) {
+      lastPosition = position;
+      lastSlot = slotAt(position);
+      return slots[lastSlot];
+    },
+    remove(position) {
+      update(position === lastPosition ? lastSlot : slotAt(position), -1);
+      count--;
+      lastPosition = -1;
+    },
+    push(index) {
+      lastPosition = -1;
+      slots[added] = index;
+      update(added++, 1);
+      count++;
+    },
+  };
+}
+
+registerMazeAlgorithm({
+  id: 'growing-tree',
+  label: 'Growing tree',
+  description: 'Extends a list of active cells, picking which one to grow by the chosen strategy. Ranges from a backtracker to Prim\'s.',
+  carve: ({ maze, random, start, growingTreeStrategy }) => {
+    const { width, height } = maze;
+    const visited = new Uint8Array(width * height);
+    // Only picks from the middle of the list need it kept in order with cheap removal anywhere
+    const ordered = growingTreeStrategy === 'middle' || growingTreeStrategy === 'mixed';
+    const active = ordered ? orderedCells(width * height) : arrayCells(width * height);
+    active.push(start[1] * width + start[0]);
+    visited[active.at(0)] = 1;
+    while (active.count > 0) {
+      const count = active.count;
+      let i: number;
+      switch (growingTreeStrategy) {
+        case 'random': i = Math.floor(random() * count); break;
+        case 'oldest': i = 0; break;
+        case 'middle': i = Math.floor(count / 2); break;
+        case 'mixed': i = random() < 0.5 ? count - 1 : Math.floor(random() * count); break;
+        default: i = count - 1;
+      }
+      const index = active.at(i);
+      const directions = directionsTo(width, height, visited, index, 0);
+      if (directions.length === 0) {
+        active.remove(i);
+        continue;
+      }
+      const direction = pick(directions, random);
+      const next = neighbourIndex(width, height, index, direction);
+      setWall(maze, index, direction, false);
+      visited[next] = 1;
+      active.push(next);
+    }
+  },
+});
+
+registerMazeAlgorithm({
+  id: 'sidewinder',
+  label: 'Sidewinder',
+  description: 'Row by row, carves runs eastward and links each run north once. An open top corridor and a northward bias.',
+  carve: ({ maze, random }) => {
+    const { width, height } = maze;
+    for (let y = 0; y < height; y++) {
+      let runStart = 0;
+      for (let x = 0; x < width; x++) {
+        const closeRun = y > 0 && (x === width - 1 || random() < 0.5);
+        if (closeRun) {
+          const cx = runStart + Math.floor(random() * (x - runStart + 1));
+          setWall(maze, y * width + cx, NORTH, false);
+          runStart = x + 1;
+        } else if (x < width - 1) {
+          setWall(maze, y * width + x, EAST, false);
+        }
+      }
+    }
+  },
+});
+
+registerMazeAlgorithm({
+  id: 'binary-tree',
+  label: 'Binary tree',
+  description: 'Every cell opens north or east at random. Open corridors along the top and right edges and a strong diagonal bias.',
+  carve: ({ maze, random }) => {
+    const { width, height } = maze;
+    for (let index = 0; index < width * height; index++) {
+      const directions = [NORTH, EAST].filter(direction => neighbourIndex(width, height, index, direction) !== -1);
+      if (directions.length > 0) setWall(maze, index, pick(directions, random), false);
+    }
+  },
+});
+
+registerMazeAlgorithm({
+  id: 'hunt-and-kill',
+  label: 'Hunt-and-kill',
+  description: 'A random walk that, when stuck, scans for an unvisited cell next to the maze and starts again there. Long corridors, like the backtracker.',
+  carve: ({ maze, random, start }) => {
+    const { width, height } = maze;
+    const visited = new Uint8Array(width * height);
+    let index = start[1] * width + start[0];
+    let firstUnvisited = 0; // every cell before it is visited
+    visited[index] = 1;
+    for (;;) {
+      const directions = directionsTo(width, height, visited, index, 0);
+      if (directions.length > 0) {
+        const direction = pick(directions, random);
+        setWall(maze, index, direction, false);
+        index = neighbourIndex(width, height, index, direction);
+        visited[index] = 1;
+        continue;
+      }
+
+      // Hunt: the first unvisited cell beside the maze joins it at a random point
+      while (firstUnvisited < width * height && visited[firstUnvisited]) firstUnvisited++;
+      let found = -1;
+      for (let cell = firstUnvisited; cell < width * height && found === -1; cell++) {
+        if (!visited[cell] && directionsTo(width, height, visited, cell, 1).length > 0) found = cell;
+      }
+      if (found === -1) return;
+      setWall(maze, found, pick(directionsTo(width, height, visited, found, 1), random), false);
+      index = found;
+      visited[index] = 1;
+    }
+  },
+});
@@ -0,0 +1,103 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { analyzeGraph, analyzeMaze, difficultyOf } from '@/maze-analysis';
+import { generatePackedMaze, generateTopologyMaze } from '@/maze-generator';
+import { getTopologies, TopologyGraph } from '@/topology';
+import { closedMaze, open, perfectMaze, type Cell } from '@/test-mazes';
+
+const CORNERS: [[number, number], [number, number]] = [[0, 0], [11, 8]];
+
+// Cells with exactly one opening, counted straight from the walls
+function countDeadEnds(maze: Cell[][]): number {
+  return maze.flat().filter(cell => [cell.north, cell.east, cell.south, cell.west].filter(wall => !wall).length === 1).length;
+}
+
+describe('analyzeMaze', () => {
+  it('measures a straight corridor', () => {
+    const maze = closedMaze(5, 1);
+    for (let x = 0; x < 4; x++) open(maze, x, 0, 1, 0);
+    const analysis = analyzeMaze(maze, [0, 0], [4, 0]);
+    assert.equal(analysis.cells, 5);
+    assert.equal(analysis.shortestPath, 4);
+    assert.equal(analysis.deadEnds, 2);
+    assert.equal(analysis.loops, 0);
+    assert.equal(analysis.tortuosity, 1);
+    assert.equal(analysis.branchingFactor, 8 / 5);
+    assert.deepEqual(analysis.expanded, { BFS: 5, DFS: 5, ASTAR: 5 });
+    // Straight, but every search covers the whole maze and two of five cells are dead ends
+    assert.equal(analysis.score, 2 / 3);
+  });
+
+  it('counts one loop per independent cycle', () => {
+    const square = closedMaze(2, 2);
+    open(square, 0, 0, 1, 0);
+    open(square, 0, 0, 0, 1);
+    open(square, 1, 0, 0, 1);
+    open(square, 0, 1, 1, 0);
+    assert.equal(analyzeMaze(square, [0, 0], [1, 1]).loops, 1);
+    assert.equal(analyzeMaze(square, [0, 0], [1, 1]).deadEnds, 0);
+
+    // Two separate rings in a 4x2 grid, with no way between them
+    const rings = closedMaze(4, 2);
+    for (const x of [0, 2]) {
+      open(rings, x, 0, 1, 0);
+      open(rings, x, 1, 1, 0);
+      open(rings, x, 0, 0, 1);
+      open(rings, x + 1, 0, 0, 1);
+    }
+    const analysis = analyzeMaze(rings, [0, 0], [3, 1]);
+    assert.equal(analysis.loops, 2);
+    assert.equal(analysis.shortestPath, Infinity);
+    assert.equal(analysis.tortuosity, Infinity);
+  });
+
+  it('finds no loops in a perfect maze, and every dead end', () => {
+    for (let seed = 1; seed <= 5; seed++) {
+      const maze = perfectMaze(12, 9, seed);
+      const analysis = analyzeMaze(maze, ...CORNERS);
+      assert.equal(analysis.loops, 0, `maze ${seed}`);
+      assert.equal(analysis.deadEnds, countDeadEnds(maze), `maze ${seed}`);
+      assert.ok(analysis.tortuosity >= 1);
+      assert.ok(analysis.score >= 0 && analysis.score <= 1);
+      assert.equal(analysis.difficulty, difficultyOf(analysis.score));
+    }
+  });
+
+  it('counts every extra opening of a generated maze as a loop', () => {
+    for (const loops of [0, 0.1, 0.3]) {
+      const { maze, start, exit } = generatePackedMaze({ width: 15, height: 11, seed: 4, loops });
+      assert.equal(analyzeMaze(maze, start, exit).loops, Math.floor(15 * 11 * loops), `loops ${loops}`);
+    }
+  });
+
+  it('refuses an empty maze', () => {
+    assert.throws(() => analyzeMaze([], [0, 0], [0, 0]), /empty maze/);
+  });
+});
+
+describe('analyzeGraph', () => {
+  it('finds no loops in a perfect shaped maze', () => {
+    for (const topology of getTopologies()) {
+      const { maze, start, exit } = generateTopologyMaze(topology, { width: 9, height: 7, seed: 2, loops: 0 });
+      const analysis = analyzeGraph(new TopologyGraph(topology, maze), start, exit);
+      assert.equal(analysis.loops, 0, topology.id);
+      assert.ok(Number.isFinite(analysis.shortestPath), topology.id);
+    }
+  });
+});
+
+describe('difficulty', () => {
+  it('puts scores in their bands', () => {
+    assert.deepEqual([0, 0.29, 0.3, 0.44, 0.45, 1].map(difficultyOf), ['easy', 'easy', 'medium', 'medium', 'hard', 'hard']);
+  });
+
+  it('is what generation aims for, and the seed reproduces the maze without asking again', () => {
+    for (const difficulty of ['easy', 'hard'] as const) {
+      const options = { width: 15, height: 11, seed: 1 };
+      const generated = generatePackedMaze({ ...options, difficulty, loops: difficulty === 'easy' ? 0.5 : 0 });
+      assert.equal(generated.analysis?.difficulty, difficulty);
+      const again = generatePackedMaze({ ...options, seed: generated.seed, loops: difficulty === 'easy' ? 0.5 : 0 });
+      assert.deepEqual(again.maze, generated.maze);
+    }
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * @fileOverview Scores how hard a maze is, from its structure and from how much searching it takes.
+ *
+ * - analyzeMaze - Analyses a square-cell maze (MazeCell[][] or PackedMaze).
+ * - analyzeGraph - Analyses any Graph, e.g. a hexagonal maze through TopologyGraph.
+ * - difficultyOf - The band a difficulty score falls in.
+ * - DIFFICULTY_BANDS - Easy, Medium and Hard, with their score ranges.
+ * - DifficultyBand - Type of a band id.
+ * - MazeAnalysis - Interface for the object returned by analyzeMaze and analyzeGraph.
+ *
+ * The score, from 0 to 1, averages three signals that each grow as a maze gets harder: how winding the
+ * solution is (1 - 1 / tortuosity), how much of the maze BFS, DFS and A* expand on average before
+ * reaching the exit, and how many dead ends a player can wander into. Loops make a maze easier on all
+ * three, since they open shortcuts. Moves are four-way and cell costs only affect A*'s expansions.
+ */
+
+import { MazeGraph, type Graph } from '@/graph';
+import { searchGraph } from '@/pathfinder';
+import { gridSize, type GridMaze } from '@/packed-maze';
+
+/**
+ * Difficulty band id.
+ */
+export type DifficultyBand = 'easy' | 'medium' | 'hard';
+
+/**
+ * The bands, in order; each covers scores from `min` (inclusive) to `max` (exclusive).
+ */
+export const DIFFICULTY_BANDS: { id: DifficultyBand; label: string; min: number; max: number }[] = [
+  { id: 'easy', label: 'Easy', min: 0, max: 0.3 },
+  { id: 'medium', label: 'Medium', min: 0.3, max: 0.45 },
+  { id: 'hard', label: 'Hard', min: 0.45, max: Infinity },
+];
+
+/**
+ * The searches whose expansions are counted.
+ */
+export const ANALYSED_METHODS = ['BFS', 'DFS', 'ASTAR'] as const;
+
+/**
+ * What analyzeMaze and analyzeGraph report.
+ */
+export interface MazeAnalysis {
+  cells: number;
+  shortestPath: number;    // moves on the shortest route from start to exit, Infinity if there is none
+  deadEnds: number;        // cells with exactly one opening
+  branchingFactor: number; // average openings per cell
+  loops: number;           // independent cycles: openings - cells + separate regions; 0 for a perfect maze
+  tortuosity: number;      // shortest route over the open-grid distance (Manhattan on square cells); 1 is a straight line
+  expanded: Record<(typeof ANALYSED_METHODS)[number], number>; // cells each search expands before reaching the exit
+  score: number;           // 0 (trivial) to 1
+  difficulty: DifficultyBand;
+}
+
+// Share of dead ends at which that signal saturates; perfect mazes from Prim's come close
+const DEAD_END_SATURATION = 0.4;
+
+/**
+ * Analyses a square-cell maze.
+ * @param maze  2D array of MazeCell or a PackedMaze describing walls.
+ * @param start Start cell [x, y].
+ * @param exit  Exit cell [x, y].
+ */
+export function analyzeMaze(maze: GridMaze, start: [number, number], exit: [number, number]): MazeAnalysis {
+  if (gridSize(maze)[0] === 0) throw new Error('Cannot analyse an empty maze');
+  return analyzeGraph(new MazeGraph(maze, 'manhattan'), start, exit);
+}
+
+/**
+ * Analyses any graph whose moves go both ways. The graph's heuristic from start to exit is taken as
+ * the open-grid distance for tortuosity, so it should be a plain distance such as Manhattan.
+ * @param graph The maze as a Graph.
+ * @param start Start node.
+ * @param exit  Exit node.
+ */
+export function analyzeGraph<Node>(graph: Graph<Node>, start: Node, exit: Node): MazeAnalysis {
+  const { size } = graph;
+  const degree = new Uint8Array(size);
+  let openings = 0;
+  let deadEnds = 0;
+  for (let key = 0; key < size; key++) {
+    degree[key] = graph.neighbours(graph.node(key)).length;
+    openings += degree[key];
+    if (degree[key] === 1) deadEnds++;
+  }
+  openings /= 2; // every opening was counted from both sides
+
+  // Separate regions, by flood fill
+  const region = new Uint8Array(size);
+  let regions = 0;
+  const stack: number[] = [];
+  for (let key = 0; key < size; key++) {
+    if (region[key]) continue;
+    regions++;
+    region[key] = 1;
+    stack.push(key);
+    while (stack.length > 0) {
+      for (const next of graph.neighbours(graph.node(stack.pop()!))) {
+        const nextKey = graph.key(next);
+        if (region[nextKey]) continue;
+        region[nextKey] = 1;
+        stack.push(nextKey);
+      }
+    }
+  }
+
+  const expanded = {} as MazeAnalysis['expanded'];
+  let shortestPath = Infinity;
+  for (const method of ANALYSED_METHODS) {
+    const result = searchGraph(graph, start, exit, method);
+    expanded[method] = result.stats.expanded;
+    if (method === 'BFS' && result.found) shortestPath = result.path.length;
+  }
+
+  const distance = graph.heuristic(start, exit);
+  const tortuosity = shortestPath === Infinity ? Infinity : distance > 0 ? shortestPath / distance : 1;
+  const averageExpanded = ANALYSED_METHODS.reduce((sum, method) => sum + expanded[method], 0) / ANALYSED_METHODS.length;
+  const score = (
+    (1 - 1 / tortuosity) +
+    Math.min(1, averageExpanded / size) +
+    Math.min(1, deadEnds / size / DEAD_END_SATURATION)
+  ) / 3;
+
+  return {
+    cells: size,
+    shortestPath,
+    deadEnds,
+    branchingFactor: (2 * openings) / size,
+    loops: openings - size + regions,
+    tortuosity,
+    expanded,
+    score,
+    difficulty: difficultyOf(score),
+  };
+}
+
+/**
+ * Returns the band a score falls in.
+ */
+export function difficultyOf(score: number): DifficultyBand {
+  return (DIFFICULTY_BANDS.find(band => score < band.max) ?? DIFFICULTY_BANDS[DIFFICULTY_BANDS.length - 1]).id;
+}
@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseAsciiMaze, printAsciiMaze } from '@/maze-ascii';
+import { generatePackedMaze } from '@/maze-generator';
+import { packMaze } from '@/packed-maze';
+import { search } from '@/pathfinder';
+
+const MAZE = [
+  '#######',
+  '#S#   #',
+  '# # # #',
+  '#   #E#',
+  '#######',
+].join('\n');
+
+describe('parseAsciiMaze', () => {
+  it('reads walls, start and exit', () => {
+    const { maze, start, exit } = parseAsciiMaze(MAZE);
+    assert.deepEqual(start, [0, 0]);
+    assert.deepEqual(exit, [2, 1]);
+    assert.equal(maze.length, 2);
+    assert.equal(maze[0].length, 3);
+    assert.deepEqual(maze[0][0], { north: true, east: true, south: false, west: true });
+    assert.deepEqual(maze[1][1], { north: false, east: true, south: true, west: false });
+  });
+
+  it('loads a printed maze and solution back as the same maze', () => {
+    for (const seed of [1, 2, 3]) {
+      const { maze, start, exit } = generatePackedMaze({ width: 9, height: 7, seed });
+      const route = search(start[0], start[1], exit[0], exit[1], 'BFS', maze).path;
+      const text = printAsciiMaze(maze, { start, exit, path: route });
+      const parsed = parseAsciiMaze(text);
+      assert.deepEqual(parsed.start, start);
+      assert.deepEqual(parsed.exit, exit);
+      assert.deepEqual(packMaze(parsed.maze).walls, maze.walls);
+      assert.equal(printAsciiMaze(parsed.maze, parsed), printAsciiMaze(maze, { start, exit }));
+    }
+  });
+
+  it('skips blank lines around the maze and whitespace after its lines', () => {
+    const padded = MAZE.split('\n').map((line, row) => line + ' \t'.repeat(row)).join('\r\n');
+    assert.deepEqual(parseAsciiMaze(`\n  \n${padded}\n\n`), parseAsciiMaze(MAZE));
+  });
+
+  it('points at the missing outer wall of a line cut short', () => {
+    const lines = MAZE.split('\n');
+    const cut = (line: number, length: number) => lines.map((text, row) => (row === line ? text.slice(0, length) : text)).join('\n');
+    assert.throws(() => parseAsciiMaze(cut(1, 6)), { message: /^Line 2, column 7: the outer wall must be '#'/ });
+    assert.throws(() => parseAsciiMaze(cut(2, 3)), { message: /^Line 3, column 7: the outer wall must be '#'/ });
+    assert.throws(() => parseAsciiMaze(`${lines[0]}#\n${lines.slice(1).join('\n')}`), { message: /^Line 1 has 8 characters; it needs an odd number/ });
+  });
+
+  it('points at the line and column of a mistake', () => {
+    const lines = MAZE.split('\n');
+    const withStray = (line: number, column: number, char: string) =>
+      lines.map((text, row) => (row === line ? text.slice(0, column) + char + text.slice(column + 1) : text)).join('\n');
+    assert.throws(() => parseAsciiMaze(withStray(2, 3, 'x')), { message: /^Line 3, column 4: unexpected 'x'/ });
+    assert.throws(() => parseAsciiMaze(withStray(0, 2, ' ')), { message: /^Line 1, column 3: the outer wall must be '#'/ });
+    assert.throws(() => parseAsciiMaze(withStray(1, 3, 'S')), { message: /^Line 2, column 4: a second S; the first is at line 2, column 2/ });
+    assert.throws(() => parseAsciiMaze(`\n${withStray(3, 3, '#')}`), { message: /^Line 5, column 4: '#' is on a cell/ });
+  });
+
+  it('rejects mazes missing a marker or with the wrong shape', () => {
+    assert.throws(() => parseAsciiMaze(MAZE.replace('E', ' ')), { message: 'Mark the exit cell with E.' });
+    assert.throws(() => parseAsciiMaze(MAZE.replace('S', ' ')), { message: 'Mark the start cell with S.' });
+    assert.throws(() => parseAsciiMaze(''), { message: 'The maze is empty.' });
+    assert.throws(() => parseAsciiMaze(MAZE.split('\n').slice(0, 4).join('\n')), { message: /it needs an odd number/ });
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * @fileOverview Square-cell mazes as ASCII art, the way textbooks draw them, and back.
+ *
+ * - parseAsciiMaze - Reads an ASCII maze into MazeCell[][] with its start and exit.
+ * - printAsciiMaze - Draws a maze as ASCII, optionally with S, E and a path overlaid.
+ * - AsciiMaze - Interface for the object returned by parseAsciiMaze.
+ *
+ * A maze of width x height cells is drawn on 2 * height + 1 lines of 2 * width + 1 characters. Cells
+ * sit on even lines and columns (counting from 1), with `#` for a wall and a space for an opening
+ * between them, and `#` at the corners:
+ *
+ *   #####
+ *   #S  #
+ *   ### #
+ *   #E  #
+ *   #####
+ *
+ * `S` and `E` mark the start and exit cells and `.` marks a path, on cells and on the openings between
+ * them. The parser reads `.` as a space, so a printed solution loads back as the same maze. It throws
+ * an Error starting with the line and column of the first problem, counting from 1 in the pasted text.
+ */
+
+import type { MazeCell } from '@/pathfinder';
+import { gridSize, wallsAt, WALL_EAST, WALL_NORTH, WALL_SOUTH, WALL_WEST, type GridMaze } from '@/packed-maze';
+
+/**
+ * What parseAsciiMaze reads.
+ */
+export interface AsciiMaze {
+  maze: MazeCell[][];
+  start: [number, number]; // cell marked S
+  exit: [number, number];  // cell marked E
+}
+
+const WALL = '#';
+const OPEN = ' ';
+const PATH = '.';
+const START = 'S';
+const EXIT = 'E';
+
+/**
+ * Reads an ASCII maze. Blank lines around it and whitespace after the end of a line are skipped, as
+ * pasting often adds them; a line cut short is reported at its missing outer wall.
+ * @param text The maze, one line per row of characters.
+ * @throws Error such as "Line 3, column 7: the outer wall must be '#'".
+ */
+export function parseAsciiMaze(text: string): AsciiMaze {
+  const allLines = text.split(/\r?\n/).map(line => line.trimEnd());
+  const first = allLines.findIndex(line => line.length > 0);
+  if (first < 0) throw new Error('The maze is empty.');
+  let last = allLines.length - 1;
+  while (allLines[last].length === 0) last--;
+  const lines = allLines.slice(first, last + 1);
+  const lineNumber = (row: number) => first + row + 1;
+
+  const columns = lines[0].length;
+  if (lines.length < 3 || lines.length % 2 === 0) {
+    throw new Error(`The maze has ${lines.length} lines; it needs an odd number, at least 3 (two per row of cells plus one).`);
+  }
+  if (columns < 3 || columns % 2 === 0) {
+    throw new Error(`Line ${lineNumber(0)} has ${columns} characters; it needs an odd number, at least 3 (two per cell plus one).`);
+  }
+  const width = (columns - 1) / 2;
+  const height = (lines.length - 1) / 2;
+  const maze: MazeCell[][] = Array.from({ length: height }, () =>
+    Array.from({ length: width }, () => ({ north: true, east: true, south: true, west: true }))
+  );
+  const markers: Record<string, { cell: [number, number]; at: string } | undefined> = {};
+
+  lines.forEach((line, row) => {
+    if (line.length > columns) {
+      throw new Error(`Line ${lineNumber(row)} has ${line.length} characters; the first line of the maze has ${columns}.`);
+    }
+    for (let column = 0; column < columns; column++) {
+      const char = line[column] ?? OPEN;
+      const at = `Line ${lineNumber(row)}, column ${column + 1}`;
+      if (![WALL, OPEN, PATH, START, EXIT].includes(char)) {
+        throw new Error(`${at}: unexpected '${char}'; use '#' for walls, spaces for openings, S and E for the start and exit.`);
+      }
+      const onBorder = row === 0 || row === lines.length - 1 || column === 0 || column === columns - 1;
+      if (onBorder && char !== WALL) throw new Error(`${at}: the outer wall must be '#'.`);
+      const cellRow = row % 2 === 1;
+      const cellColumn = column % 2 === 1;
+
+      if (cellRow && cellColumn) {
+        const cell: [number, number] = [(column - 1) / 2, (row - 1) / 2];
+        if (char === WALL) throw new Error(`${at}: '#' is on a cell; walls go between cells, on odd lines or columns of the maze.`);
+        if (char === START || char === EXIT) {
+          const previous = markers[char];
+          if (previous) throw new Error(`${at}: a second ${char}; the first is at ${previous.at.toLowerCase()}.`);
+          markers[char] = { cell, at };
+        }
+        continue;
+      }
+      if (char === START || char === EXIT) throw new Error(`${at}: ${char} must be on a cell, not between cells.`);
+      if (char === WALL || (!cellRow && !cellColumn)) continue; // Corners only join walls
+
+      const [x, y] = [Math.floor((column - 1) / 2), Math.floor((row - 1) / 2)];
+      if (cellRow) {
+        // An opening between the cells to its left and right
+        maze[y][x].east = false;
+        maze[y][x + 1].west = false;
+      } else {
+        // An opening between the cells above and below
+        maze[y][x].south = false;
+        maze[y + 1][x].north = false;
+      }
+    }
+  });
+
+  if (!markers[START]) throw new Error(`Mark the start cell with ${START}.`);
+  if (!markers[EXIT]) throw new Error(`Mark the exit cell with ${EXIT}.`);
+  return { maze, start: markers[START].cell, exit: markers[EXIT].cell };
+}
+
+/**
+ * Draws a maze as ASCII, the inverse of parseAsciiMaze. Terrain costs are not drawn.
+ * @param maze  2D array of MazeCell or a PackedMaze describing walls.
+ * @param marks Optional start and exit, drawn as S and E, and a path drawn with '.': cells in order,
+ *              like SearchResult.path, joined to the start when it is given. Diagonal steps only mark cells.
+ * @returns      The lines, joined with '\n'.
+ */
+export function printAsciiMaze(
+  maze: GridMaze,
+  marks: { start?: [number, number]; exit?: [number, number]; path?: [number, number][] } = {}
+): string {
+  const [width, height] = gridSize(maze);
+  const rows = Array.from({ length: 2 * height + 1 }, () => Array<string>(2 * width + 1).fill(WALL));
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const walls = wallsAt(maze, y * width + x);
+      rows[2 * y + 1][2 * x + 1] = OPEN;
+      if (!(walls & WALL_NORTH)) rows[2 * y][2 * x + 1] = OPEN;
+      if (!(walls & WALL_EAST)) rows[2 * y + 1][2 * x + 2] = OPEN;
+      if (!(walls & WALL_SOUTH)) rows[2 * y + 2][2 * x + 1] = OPEN;
+      if (!(walls & WALL_WEST)) rows[2 * y + 1][2 * x] = OPEN;
+    }
+  }
+
+  const route = [...(marks.start ? [marks.start] : []), ...(marks.path ?? [])];
+  route.forEach(([x, y], step) => {
+    rows[2 * y + 1][2 * x + 1] = PATH;
+    if (step === 0) return;
+    const [previousX, previousY] = route[step - 1];
+    if (Math.abs(x - previousX) + Math.abs(y - previousY) === 1) rows[y + previousY + 1][x + previousX + 1] = PATH;
+  });
+  if (marks.start) rows[2 * marks.start[1] + 1][2 * marks.start[0] + 1] = START;
+  if (marks.exit) rows[2 * marks.exit[1] + 1][2 * marks.exit[0] + 1] = EXIT;
+
+  return rows.map(row => row.join('')).join('\n');
+}
@@ -0,0 +1,95 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createMazeFile, decodeShareString, encodeShareString, mazeFileToGrid, mazeFileToTopologyMaze, parseMazeJson,
+  readMazeFile, readShareHash, shareHash, type MazeFile,
+} from '@/maze-format';
+import { generatePackedMaze, generateTopologyMaze } from '@/maze-generator';
+import { packMaze } from '@/packed-maze';
+import { getTopologies, getTopology, DEFAULT_TOPOLOGY } from '@/topology';
+import { randomMaze } from '@/test-mazes';
+
+const SQUARE = getTopology(DEFAULT_TOPOLOGY);
+
+// Files describe square mazes by their walls as MazeCell[][] or PackedMaze, other shapes as TopologyMaze
+const shapedTopologies = () => getTopologies().filter(topology => topology.id !== DEFAULT_TOPOLOGY);
+
+// A generated square maze with terrain, as a file that records how it was made
+function generatedFile(): MazeFile {
+  const { maze, start, exit, seed } = generatePackedMaze({ width: 25, height: 20, seed: 77, loops: 0.2, terrainCosts: [3, 5] });
+  return createMazeFile(SQUARE, maze, { start, exit, seed, generator: { algorithm: 'backtracker', loops: 0.2, terrain: true } });
+}
+
+describe('maze files', () => {
+  it('give back the same square maze through JSON', () => {
+    const file = generatedFile();
+    const loaded = parseMazeJson(JSON.stringify(file));
+    assert.deepEqual(loaded, file);
+    assert.deepEqual(mazeFileToGrid(loaded), generatePackedMaze({ width: 25, height: 20, seed: 77, loops: 0.2, terrainCosts: [3, 5] }).maze);
+  });
+
+  it('store MazeCell grids and packed mazes alike, and costs only when some cell has one', () => {
+    const maze = randomMaze(9, 7, 3);
+    const details = { start: [0, 0] as [number, number], exit: [8, 6] as [number, number] };
+    assert.deepEqual(createMazeFile(SQUARE, maze, details), createMazeFile(SQUARE, packMaze(maze), details));
+    const plain = createMazeFile(SQUARE, generatePackedMaze({ width: 9, height: 7, seed: 1 }).maze, details);
+    assert.equal(plain.costs, undefined);
+  });
+
+  it('give back shaped mazes', () => {
+    for (const topology of shapedTopologies()) {
+      const { maze, start, exit } = generateTopologyMaze(topology, { width: 9, height: 7, seed: 5, terrainCosts: [3] });
+      const file = parseMazeJson(JSON.stringify(createMazeFile(topology, maze, { start, exit })));
+      assert.deepEqual(mazeFileToTopologyMaze(file), maze, topology.id);
+    }
+  });
+
+  it('say what is wrong with a bad file', () => {
+    const file = generatedFile();
+    assert.throws(() => parseMazeJson('{"version": 1,'), /^Error: Not a valid maze file\. /);
+    assert.throws(() => readMazeFile({ ...file, version: 2 }), /version/);
+    assert.throws(() => readMazeFile({ ...file, topology: 'octagon' }), /Unknown cell shape "octagon"/);
+    assert.throws(() => readMazeFile({ ...file, walls: file.walls.slice(1) }), /walls: Expected 500 cells, got 499/);
+    assert.throws(() => readMazeFile({ ...file, exit: [25, 3] }), /exit: \(25, 3\) is outside the 25 x 20 grid/);
+
+    const openEdge = [...file.walls];
+    openEdge[0] &= ~1; // north side of the top-left cell
+    assert.throws(() => readMazeFile({ ...file, walls: openEdge }), /walls\.0: Cell \(0, 0\) is open to the .*, outside the maze/);
+
+    const oneSided = [...file.walls];
+    oneSided[30] ^= 2; // east wall of (5, 1), without its neighbour's west wall
+    assert.throws(() => readMazeFile({ ...file, walls: oneSided }), /Cell \(5, 1\) and its .* neighbour disagree about the wall between them/);
+  });
+});
+
+describe('share links', () => {
+  it('give back the same maze, seed and settings', () => {
+    const file = generatedFile();
+    assert.deepEqual(decodeShareString(encodeShareString(file)), file);
+    assert.deepEqual(readShareHash(shareHash(file)), file);
+    assert.match(shareHash(file), /^#maze=[A-Za-z0-9_-]+$/);
+  });
+
+  it('keep a plain 25x20 maze short enough for a URL', () => {
+    const { maze, start, exit, seed } = generatePackedMaze({ width: 25, height: 20, seed: 77, loops: 0.2 });
+    const file = createMazeFile(SQUARE, maze, { start, exit, seed, generator: { algorithm: 'backtracker', loops: 0.2, terrain: false } });
+    assert.ok(encodeShareString(file).length <= 220);
+  });
+
+  it('give back shaped mazes', () => {
+    for (const topology of shapedTopologies()) {
+      const { maze, start, exit, seed } = generateTopologyMaze(topology, { width: 12, height: 9, seed: 8 });
+      const file = createMazeFile(topology, maze, { start, exit, seed });
+      assert.deepEqual(decodeShareString(encodeShareString(file)), file, topology.id);
+    }
+  });
+
+  it('are ignored when absent and rejected when damaged', () => {
+    assert.equal(readShareHash(''), null);
+    assert.equal(readShareHash('#other=1'), null);
+    const text = encodeShareString(generatedFile());
+    assert.throws(() => decodeShareString('%%%'), /damaged/);
+    assert.throws(() => decodeShareString(`B${text.slice(1)}`), /unknown format version/);
+    assert.throws(() => decodeShareString(text.slice(0, 12)));
+  });
+});
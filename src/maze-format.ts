@@ -0,0 +1,435 @@
+/**
+ * @fileOverview Saving and sharing mazes: a versioned JSON format validated with zod, and a compact
+ * bit-packed share string that fits in a URL hash.
+ *
+ * - MAZE_FORMAT_VERSION - Version written into every MazeFile.
+ * - MAX_SAVED_MAZE_SIZE - Largest width or height a MazeFile may have.
+ * - mazeFileSchema - zod schema of a MazeFile, including checks that walls agree on both sides.
+ * - createMazeFile - Describes a square or shaped maze as a MazeFile.
+ * - readMazeFile - Validates parsed JSON as a MazeFile.
+ * - parseMazeJson - Reads a MazeFile from JSON text.
+ * - mazeFileToGrid / mazeFileToTopologyMaze - Rebuilds the maze for the game.
+ * - encodeShareString / decodeShareString - MazeFile to and from base64url text.
+ * - shareHash / readShareHash - The URL hash carrying a share string.
+ * - MazeFile - Type of a validated file.
+ *
+ * Walls are stored per cell as bits, bit d set when the side in direction d of the cell's topology is
+ * closed, so square cells use the WALL_* bits of packed-maze.ts. Sides without a neighbour inside the
+ * grid must be closed. The share string keeps only what cannot be derived: one bit per side two cells
+ * share, counted once. A 25x20 maze's walls take 120 bytes, about 210 characters with its seed and
+ * generator settings. Both readers throw an Error whose message says what is wrong, fit to show a player.
+ */
+
+import { z } from 'zod';
+import { cellCost } from '@/graph';
+import { createPackedMaze, gridSize, wallsAt, type GridMaze, type PackedMaze } from '@/packed-maze';
+import { getTopologies, getTopology, DEFAULT_TOPOLOGY, type Topology, type TopologyCell, type TopologyMaze } from '@/topology';
+
+export const MAZE_FORMAT_VERSION = 1;
+
+/**
+ * Largest width or height accepted in a MazeFile or share string.
+ */
+export const MAX_SAVED_MAZE_SIZE = 1000;
+
+const SHARE_HASH_KEY = 'maze';
+const SEED_LIMIT = 2 ** 32 - 1;
+
+// Flags byte of a share string
+const HAS_SEED = 1;
+const HAS_GENERATOR = 2;
+const HAS_COSTS = 4;
+const HAS_TERRAIN = 8;
+
+const cellSchema = z.tuple([z.number().int().nonnegative(), z.number().int().nonnegative()]);
+
+/**
+ * zod schema of a MazeFile. Beyond the field types it checks array lengths, that the start and exit
+ * are inside the grid, and that every wall is closed on both cells it separates or on neither.
+ */
+export const mazeFileSchema = z.object({
+  version: z.literal(MAZE_FORMAT_VERSION),
+  topology: z.string().refine(id => getTopologies().some(topology => topology.id === id), id => ({ message: `Unknown cell shape "${id}"` })),
+  width: z.number().int().min(1).max(MAX_SAVED_MAZE_SIZE),
+  height: z.number().int().min(1).max(MAX_SAVED_MAZE_SIZE),
+  walls: z.array(z.number().int().min(0).max(255)), // closed sides per cell, row by row
+  costs: z.array(z.number().positive().finite()).optional(), // cost of entering each cell, row by row
+  start: cellSchema,
+  exit: cellSchema,
+  seed: z.number().int().min(0).max(SEED_LIMIT).optional(), // replays the maze when the generator settings match
+  generator: z.object({
+    algorithm: z.string(),
+    growingTreeStrategy: z.string().optional(),
+    loops: z.number().min(0).max(1),
+    terrain: z.boolean(),
+  }).optional(),
+}).superRefine((file, ctx) => {
+  const cells = file.width * file.height;
+  if (file.walls.length !== cells) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['walls'], message: `Expected ${cells} cells, got ${file.walls.length}` });
+    return;
+  }
+  if (file.costs && file.costs.length !== cells) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['costs'], message: `Expected ${cells} cells, got ${file.costs.length}` });
+  }
+  for (const key of ['start', 'exit'] as const) {
+    const [x, y] = file[key];
+    if (x >= file.width || y >= file.height) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: `(${x}, ${y}) is outside the ${file.width} x ${file.height} grid` });
+    }
+  }
+  const problem = findWallProblem(getTopology(file.topology), file.width, file.height, file.walls);
+  if (problem) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['walls', problem.index], message: problem.message });
+});
+
+/**
+ * A validated maze file.
+ */
+export type MazeFile = z.infer<typeof mazeFileSchema>;
+
+/**
+ * Returns the neighbour of (x, y) in `direction`, or null if that side has no cell inside the grid.
+ */
+function neighbourInside(topology: Topology, width: number, height: number, x: number, y: number, direction: number): [number, number] | null {
+  const next = topology.neighbour(x, y, direction);
+  if (!next || next[0] < 0 || next[0] >= width || next[1] < 0 || next[1] >= height) return null;
+  return next;
+}
+
+/**
+ * Finds the first cell whose walls are impossible: unknown directions, an open side facing out of
+ * the grid, or a side its neighbour sees differently.
+ */
+function findWallProblem(topology: Topology, width: number, height: number, walls: number[]): { index: number; message: string } | null {
+  const directionCount = topology.directions.length;
+  for (let index = 0; index < width * height; index++) {
+    const x = index % width;
+    const y = (index - x) / width;
+    if (walls[index] >> directionCount) {
+      return { index, message: `Cell (${x}, ${y}) has walls beyond its ${directionCount} sides` };
+    }
+    for (let d = 0; d < directionCount; d++) {
+      const closed = (walls[index] >> d) & 1;
+      const next = neighbourInside(topology, width, height, x, y, d);
+      if (!next) {
+        if (!closed) return { index, message: `Cell (${x}, ${y}) is open to the ${topology.directions[d]}, outside the maze` };
+        continue;
+      }
+      if (((walls[next[1] * width + next[0]] >> topology.opposite(d)) & 1) !== closed) {
+        return { index, message: `Cell (${x}, ${y}) and its ${topology.directions[d]} neighbour disagree about the wall between them` };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Describes a maze as a MazeFile.
+ * @param topology Cell shape; square mazes are read as MazeCell[][] or PackedMaze, others as TopologyMaze.
+ * @param maze     The maze.
+ * @param details  Start, exit and, for generated mazes, the seed and generator settings.
+ */
+export function createMazeFile(
+  topology: Topology,
+  maze: GridMaze | TopologyMaze,
+  details: Pick<MazeFile, 'start' | 'exit' | 'seed' | 'generator'>
+): MazeFile {
+  const square = topology.id === DEFAULT_TOPOLOGY;
+  const [width, height] = square ? gridSize(maze as GridMaze) : [(maze as TopologyMaze)[0].length, (maze as TopologyMaze).length];
+  const walls: number[] = [];
+  const costs: number[] = [];
+  for (let index = 0; index < width * height; index++) {
+    if (square) {
+      walls.push(wallsAt(maze as GridMaze, index));
+      costs.push(cellCost(maze as GridMaze, index));
+    } else {
+      const cell = (maze as TopologyMaze)[Math.floor(index / width)][index % width];
+      walls.push(cell.walls.reduce((bits, closed, d) => (closed ? bits | (1 << d) : bits), 0));
+      costs.push(cell.cost ?? 1);
+    }
+  }
+  return {
+    version: MAZE_FORMAT_VERSION,
+    topology: topology.id,
+    width,
+    height,
+    walls,
+    ...(costs.some(cost => cost !== 1) && { costs }),
+    start: details.start,
+    exit: details.exit,
+    ...(details.seed !== undefined && { seed: details.seed }),
+    ...(details.generator && { generator: details.generator }),
+  };
+}
+
+/**
+ * Validates parsed JSON.
+ * @throws Error naming the first problems found, e.g. "walls.12: Cell (12, 0) is open to the N, outside the maze".
+ */
+export function readMazeFile(data: unknown): MazeFile {
+  const result = mazeFileSchema.safeParse(data);
+  if (result.success) return result.data;
+  const problems = result.error.issues.slice(0, 3).map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message));
+  throw new Error(`Not a valid maze file. ${problems.join('; ')}`);
+}
+
+/**
+ * Reads a MazeFile from JSON text.
+ * @throws Error if the text is not JSON or not a valid maze file.
+ */
+export function parseMazeJson(text: string): MazeFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Not a valid maze file. ${(error as Error).message}`);
+  }
+  return readMazeFile(data);
+}
+
+/**
+ * Rebuilds a square-cell maze from a file whose topology is square.
+ */
+export function mazeFileToGrid(file: MazeFile): PackedMaze {
+  const maze = createPackedMaze(file.width, file.height);
+  maze.walls.set(file.walls);
+  if (file.costs) maze.costs = Float64Array.from(file.costs);
+  return maze;
+}
+
+/**
+ * Rebuilds a maze of the file's cell shape as a TopologyMaze.
+ */
+export function mazeFileToTopologyMaze(file: MazeFile): TopologyMaze {
+  const directionCount = getTopology(file.topology).directions.length;
+  return Array.from({ length: file.height }, (_, y) =>
+    Array.from({ length: file.width }, (_, x) => {
+      const index = y * file.width + x;
+      const cell: TopologyCell = {
+        walls: Array.from({ length: directionCount }, (_, d) => ((file.walls[index] >> d) & 1) === 1),
+      };
+      if (file.costs && file.costs[index] !== 1) cell.cost = file.costs[index];
+      return cell;
+    })
+  );
+}
+
+/**
+ * Appends bytes, and bits packed least significant first, for a share string.
+ */
+class ByteWriter {
+  readonly bytes: number[] = [];
+  private bitCount = 0;
+
+  byte(value: number): void {
+    this.bytes.push(value & 0xff);
+    this.bitCount = 0;
+  }
+
+  varint(value: number): void {
+    while (value >= 0x80) {
+      this.byte((value & 0x7f) | 0x80);
+      value = Math.floor(value / 0x80);
+    }
+    this.byte(value);
+  }
+
+  uint32(value: number): void {
+    for (let shift = 0; shift < 32; shift += 8) this.byte(value >>> shift);
+  }
+
+  float64(value: number): void {
+    const view = new DataView(new ArrayBuffer(8));
+    view.setFloat64(0, value, true);
+    for (let i = 0; i < 8; i++) this.byte(view.getUint8(i));
+  }
+
+  string(value: string): void {
+    const encoded = new TextEncoder().encode(value);
+    this.varint(encoded.length);
+    encoded.forEach(byte => this.byte(byte));
+  }
+
+  bits(value: number, count: number): void {
+    for (let bit = 0; bit < count; bit++) {
+      if (this.bitCount === 0) this.bytes.push(0);
+      this.bytes[this.bytes.length - 1] |= ((value >> bit) & 1) << this.bitCount;
+      this.bitCount = (this.bitCount + 1) % 8;
+    }
+  }
+}
+
+/**
+ * Reads what ByteWriter wrote, throwing when the data runs out.
+ */
+class ByteReader {
+  private offset = 0;
+  private bitCount = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  byte(): number {
+    if (this.offset >= this.bytes.length) throw new Error('The share link is cut short.');
+    this.bitCount = 0;
+    return this.bytes[this.offset++];
+  }
+
+  varint(): number {
+    let value = 0;
+    for (let scale = 1; ; scale *= 0x80) {
+      const byte = this.byte();
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) return value;
+      if (scale > 2 ** 28) throw new Error('The share link holds a number too large.');
+    }
+  }
+
+  uint32(): number {
+    let value = 0;
+    for (let shift = 0; shift < 32; shift += 8) value += this.byte() * 2 ** shift;
+    return value;
+  }
+
+  float64(): number {
+    const view = new DataView(new ArrayBuffer(8));
+    for (let i = 0; i < 8; i++) view.setUint8(i, this.byte());
+    return view.getFloat64(0, true);
+  }
+
+  string(): string {
+    const length = this.varint();
+    return new TextDecoder().decode(Uint8Array.from({ length }, () => this.byte()));
+  }
+
+  bits(count: number): number {
+    let value = 0;
+    for (let bit = 0; bit < count; bit++) {
+      if (this.bitCount === 0) {
+        if (this.offset >= this.bytes.length) throw new Error('The share link is cut short.');
+        this.offset++;
+      }
+      value |= ((this.bytes[this.offset - 1] >> this.bitCount) & 1) << bit;
+      this.bitCount = (this.bitCount + 1) % 8;
+    }
+    return value;
+  }
+}
+
+/**
+ * Calls `visit` once per side shared by two cells of the grid, in a fixed order: cells row by row,
+ * then directions whose opposite comes later.
+ */
+function forEachSharedSide(topology: Topology, width: number, height: number, visit: (index: number, d: number, nextIndex: number) => void): void {
+  for (let index = 0; index < width * height; index++) {
+    const x = index % width;
+    const y = (index - x) / width;
+    for (let d = 0; d < topology.directions.length; d++) {
+      if (topology.opposite(d) < d) continue;
+      const next = neighbourInside(topology, width, height, x, y, d);
+      if (next) visit(index, d, next[1] * width + next[0]);
+    }
+  }
+}
+
+/**
+ * Packs a maze file into base64url text (no padding).
+ */
+export function encodeShareString(file: MazeFile): string {
+  const topology = getTopology(file.topology);
+  const writer = new ByteWriter();
+  writer.byte(MAZE_FORMAT_VERSION);
+  writer.string(file.topology);
+  for (const value of [file.width, file.height, ...file.start, ...file.exit]) writer.varint(value);
+  writer.byte(
+    (file.seed !== undefined ? HAS_SEED : 0) |
+    (file.generator ? HAS_GENERATOR : 0) |
+    (file.costs ? HAS_COSTS : 0) |
+    (file.generator?.terrain ? HAS_TERRAIN : 0)
+  );
+  if (file.seed !== undefined) writer.uint32(file.seed);
+  if (file.generator) {
+    writer.string(file.generator.algorithm);
+    writer.string(file.generator.growingTreeStrategy ?? '');
+    writer.float64(file.generator.loops);
+  }
+  if (file.costs) {
+    // Terrain uses a handful of costs, so cells store an index into a palette of them
+    const palette = Array.from(new Set(file.costs));
+    const indexBits = Math.max(1, Math.ceil(Math.log2(palette.length)));
+    writer.varint(palette.length);
+    palette.forEach(cost => writer.float64(cost));
+    file.costs.forEach(cost => writer.bits(palette.indexOf(cost), indexBits));
+  }
+  forEachSharedSide(topology, file.width, file.height, (index, d) => writer.bits(file.walls[index] >> d, 1));
+
+  let binary = '';
+  writer.bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Unpacks text from encodeShareString.
+ * @throws Error if the text is damaged or describes an impossible maze.
+ */
+export function decodeShareString(text: string): MazeFile {
+  let binary: string;
+  try {
+    binary = atob(text.trim().replace(/-/g, '+').replace(/_/g, '/'));
+  } catch {
+    throw new Error('The share link is damaged.');
+  }
+  const reader = new ByteReader(Uint8Array.from(binary, char => char.charCodeAt(0)));
+  const version = reader.byte();
+  if (version !== MAZE_FORMAT_VERSION) throw new Error(`The share link is from an unknown format version (${version}).`);
+  const topologyId = reader.string();
+  const [width, height, startX, startY, exitX, exitY] = Array.from({ length: 6 }, () => reader.varint());
+  if (!getTopologies().some(topology => topology.id === topologyId)) throw new Error(`Unknown cell shape "${topologyId}".`);
+  if (width < 1 || height < 1 || width > MAX_SAVED_MAZE_SIZE || height > MAX_SAVED_MAZE_SIZE) {
+    throw new Error(`The shared maze is ${width} x ${height}; sizes go from 1 to ${MAX_SAVED_MAZE_SIZE}.`);
+  }
+  const flags = reader.byte();
+  const data: Record<string, unknown> = { version, topology: topologyId, width, height, start: [startX, startY], exit: [exitX, exitY] };
+  if (flags & HAS_SEED) data.seed = reader.uint32();
+  if (flags & HAS_GENERATOR) {
+    const algorithm = reader.string();
+    const growingTreeStrategy = reader.string();
+    data.generator = {
+      algorithm,
+      ...(growingTreeStrategy && { growingTreeStrategy }),
+      loops: reader.float64(),
+      terrain: (flags & HAS_TERRAIN) !== 0,
+    };
+  }
+  if (flags & HAS_COSTS) {
+    const palette = Array.from({ length: reader.varint() }, () => reader.float64());
+    const indexBits = Math.max(1, Math.ceil(Math.log2(palette.length)));
+    data.costs = Array.from({ length: width * height }, () => palette[reader.bits(indexBits)] ?? NaN);
+  }
+
+  const topology = getTopology(topologyId);
+  const walls = Array<number>(width * height).fill((1 << topology.directions.length) - 1);
+  forEachSharedSide(topology, width, height, (index, d, nextIndex) => {
+    if (reader.bits(1)) return;
+    walls[index] &= ~(1 << d);
+    walls[nextIndex] &= ~(1 << topology.opposite(d));
+  });
+  data.walls = walls;
+  return readMazeFile(data);
+}
+
+/**
+ * Returns the URL hash that shares `file`, e.g. "#maze=AQZzcXVhcmU...".
+ */
+export function shareHash(file: MazeFile): string {
+  return `#${SHARE_HASH_KEY}=${encodeShareString(file)}`;
+}
+
+/**
+ * Reads the maze from a URL hash made by shareHash.
+ * @returns The maze, or null if the hash carries none.
+ * @throws Error if it carries a damaged one.
+ */
+export function readShareHash(hash: string): MazeFile | null {
+  const value = new URLSearchParams(hash.replace(/^#/, '')).get(SHARE_HASH_KEY);
+  return value ? decodeShareString(value) : null;
+}
@@ -0,0 +1,83 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateMaze, generatePackedMaze, generateTopologyMaze } from '@/maze-generator';
+import { unpackMaze } from '@/packed-maze';
+import { getMazeAlgorithms } from '@/maze-algorithms';
+import { getTopologies, TopologyGraph, type Topology } from '@/topology';
+import type { MazeCell } from '@/pathfinder';
+
+const OPTIONS = { width: 15, height: 11, loops: 0.2, terrainCosts: [3, 5] };
+const CELLS = OPTIONS.width * OPTIONS.height;
+
+// Open walls between neighbouring cells; a connected maze with CELLS - 1 of them has no loops
+function squarePassages(maze: MazeCell[][]): number {
+  return maze.flat().reduce((count, cell) => count + Number(!cell.east) + Number(!cell.south), 0);
+}
+
+function topologyPassages(topology: Topology, loops: number, seed: number): number {
+  const graph = new TopologyGraph(topology, generateTopologyMaze(topology, { ...OPTIONS, loops, seed }).maze);
+  let ends = 0;
+  for (let y = 0; y < OPTIONS.height; y++) {
+    for (let x = 0; x < OPTIONS.width; x++) ends += graph.neighbours([x, y]).length;
+  }
+  return ends / 2;
+}
+
+describe('generateMaze', () => {
+  it('gives the same maze, start and exit for the same seed', () => {
+    for (const seed of [0, 1, 42, 2 ** 32 - 1]) {
+      assert.deepEqual(generateMaze({ ...OPTIONS, seed }), generateMaze({ ...OPTIONS, seed }), `seed ${seed}`);
+    }
+    assert.notDeepEqual(generateMaze({ ...OPTIONS, seed: 1 }).maze, generateMaze({ ...OPTIONS, seed: 2 }).maze);
+  });
+
+  it('gives the same maze packed, for the same seed', () => {
+    for (const seed of [0, 9, 2 ** 31]) {
+      const packed = generatePackedMaze({ ...OPTIONS, seed });
+      assert.deepEqual(generatePackedMaze({ ...OPTIONS, seed }), packed, `seed ${seed}`);
+      assert.deepEqual(unpackMaze(packed.maze), generateMaze({ ...OPTIONS, seed }).maze, `seed ${seed}`);
+    }
+  });
+
+  it('reports a seed that reproduces a randomly seeded maze', () => {
+    const first = generateMaze(OPTIONS);
+    assert.deepEqual(generateMaze({ ...OPTIONS, seed: first.seed }), first);
+  });
+});
+
+describe('generateTopologyMaze', () => {
+  it('gives the same maze for the same seed on every topology', () => {
+    for (const topology of getTopologies()) {
+      for (const seed of [0, 7, 123456]) {
+        assert.deepEqual(generateTopologyMaze(topology, { ...OPTIONS, seed }), generateTopologyMaze(topology, { ...OPTIONS, seed }), `${topology.id} seed ${seed}`);
+      }
+      const first = generateTopologyMaze(topology, OPTIONS);
+      assert.deepEqual(generateTopologyMaze(topology, { ...OPTIONS, seed: first.seed }), first, topology.id);
+    }
+  });
+});
+
+describe('loop density', () => {
+  it('leaves a perfect maze with no extra openings', () => {
+    for (const { id } of getMazeAlgorithms()) {
+      for (let seed = 1; seed <= 3; seed++) {
+        assert.equal(squarePassages(generateMaze({ ...OPTIONS, algorithm: id, loops: 0, seed }).maze), CELLS - 1, `${id} seed ${seed}`);
+      }
+    }
+    for (const topology of getTopologies()) assert.equal(topologyPassages(topology, 0, 1), CELLS - 1, topology.id);
+  });
+
+  it('knocks out one extra wall per opening asked for', () => {
+    for (const loops of [0.05, 0.2, 0.4]) {
+      for (let seed = 1; seed <= 3; seed++) {
+        const passages = squarePassages(generateMaze({ ...OPTIONS, loops, seed }).maze);
+        assert.equal(passages, CELLS - 1 + Math.floor(CELLS * loops), `loops ${loops} seed ${seed}`);
+      }
+    }
+    for (const topology of getTopologies()) {
+      const counts = [0, 0.1, 0.3].map(loops => topologyPassages(topology, loops, 2));
+      assert.ok(counts[0] < counts[1] && counts[1] < counts[2], `${topology.id}: ${counts}`);
+      assert.ok(counts[2] <= CELLS - 1 + Math.floor(CELLS * 0.3), topology.id);
+    }
+  });
+});
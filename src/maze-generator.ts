@@ -0,0 +1,226 @@
+/**
+ * @fileOverview Seeded maze generation: the same seed and options always give the same maze, start and
+ * exit, in the browser and in Node alike.
+ *
+ * - generateMaze - Square-cell maze: any algorithm from maze-algorithms.ts, extra openings and optional terrain patches.
+ * - generatePackedMaze - The same maze as a PackedMaze (see packed-maze.ts), for very large grids.
+ * - generateTopologyMaze - The same for hexagonal and triangular cells (see topology.ts), always with the backtracker.
+ * - MazeGenerationOptions - Interface for the parameters of both generators.
+ * - GeneratedMaze - Interface for the object they return.
+ * - DEFAULT_LOOPS - Share of cells that get an extra opening when none is given.
+ * - MAX_DIFFICULTY_ATTEMPTS - Mazes tried when looking for one in a difficulty band.
+ *
+ * Every random choice goes through one createRandom(seed) generator, in a fixed order, so a seed is
+ * all two players need to share to get the same maze (with the same size, algorithm, loops and terrain options).
+ *
+ * With MazeGenerationOptions.difficulty, the generators score each maze with maze-analysis.ts and try
+ * further seeds, drawn from the first one, until a maze lands in the band. The returned seed is the one
+ * that produced the maze, so it reproduces it with or without the difficulty option.
+ */
+
+import type { MazeCell } from '@/pathfinder';
+import { carveTopologyMaze, TopologyGraph, type Topology, type TopologyMaze } from '@/topology';
+import { createRandom, randomSeed } from '@/lib/random';
+import { createPackedMaze, unpackMaze, type PackedMaze } from '@/packed-maze';
+import { DEFAULT_MAZE_ALGORITHM, GROWING_TREE_STRATEGIES, getMazeAlgorithm } from '@/maze-algorithms';
+import { analyzeGraph, analyzeMaze, DIFFICULTY_BANDS, type DifficultyBand, type MazeAnalysis } from '@/maze-analysis';
+
+/**
+ * Parameters of generateMaze and generateTopologyMaze.
+ */
+export interface MazeGenerationOptions {
+  width: number;          // cells per row
+  height: number;         // rows
+  seed?: number;          // unsigned 32-bit seed; a random one when omitted
+  loops?: number;         // extra openings as a share of the cell count, DEFAULT_LOOPS when omitted
+  terrainCosts?: number[]; // movement costs of the terrain patches to paint; no terrain when empty or omitted
+  algorithm?: string;     // id from getMazeAlgorithms(), square cells only; DEFAULT_MAZE_ALGORITHM when omitted
+  growingTreeStrategy?: string; // id from GROWING_TREE_STRATEGIES, for the growing tree algorithm
+  difficulty?: DifficultyBand; // keep generating until the maze scores in this band, or return the closest
+}
+
+/**
+ * A generated maze. Start and exit are opposite corners, one cell in from the edge.
+ */
+export interface GeneratedMaze<Grid = MazeCell[][]> {
+  maze: Grid;
+  start: [number, number];
+  exit: [number, number];
+  seed: number; // the seed that reproduces this maze
+  analysis?: MazeAnalysis; // present when a difficulty was requested; its band may differ if none was found
+}
+
+/**
+ * Share of cells that get an extra opening when MazeGenerationOptions.loops is omitted.
+ */
+export const DEFAULT_LOOPS = 0.25;
+
+const TERRAIN_PATCH_AREA = 40; // One terrain patch per this many cells
+const TERRAIN_PATCH_SIZE = 6; // Cells painted by each patch's random walk
+const SEED_RANGE = 2 ** 32;
+
+/**
+ * Mazes generated at most when looking for one in the requested difficulty band.
+ */
+export const MAX_DIFFICULTY_ATTEMPTS = 40;
+
+/**
+ * Generates a square-cell maze as MazeCell objects.
+ * @param options Size, seed, algorithm, loop density and terrain.
+ * @returns        The maze with its start, exit and seed.
+ */
+export function generateMaze(options: MazeGenerationOptions): GeneratedMaze {
+  const generated = generatePackedMaze(options);
+  return { ...generated, maze: unpackMaze(generated.maze) };
+}
+
+/**
+ * Generates a square-cell maze as wall bitmasks, the same maze generateMaze gives for the same options.
+ * @param options Size, seed, algorithm, loop density and terrain.
+ * @returns        The maze with its start, exit and seed.
+ */
+export function generatePackedMaze(options: MazeGenerationOptions): GeneratedMaze<PackedMaze> {
+  return generateInBand(options, seed => carvePackedMaze(options, seed), ({ maze, start, exit }) => analyzeMaze(maze, start, exit));
+}
+
+/**
+ * Generates a maze of hexagonal or triangular cells, with the same corners, loops and terrain as
+ * generateMaze.
+ * @param topology Cell shape.
+ * @param options  Size, seed, loop density and terrain.
+ * @returns         The maze with its start, exit and seed.
+ */
+export function generateTopologyMaze(topology: Topology, options: MazeGenerationOptions): GeneratedMaze<TopologyMaze> {
+  return generateInBand(
+    options,
+    seed => carveShapedMaze(topology, options, seed),
+    ({ maze, start, exit }) => analyzeGraph(new TopologyGraph(topology, maze), start, exit)
+  );
+}
+
+/**
+ * Generates from options.seed (or a random seed) and, when a difficulty is requested, from further
+ * seeds until a maze scores in the band. Keeps the closest maze if none does.
+ */
+function generateInBand<Grid>(
+  options: MazeGenerationOptions,
+  generate: (seed: number) => GeneratedMaze<Grid>,
+  analyze: (generated: GeneratedMaze<Grid>) => MazeAnalysis
+): GeneratedMaze<Grid> {
+  const firstSeed = options.seed ?? randomSeed();
+  const band = DIFFICULTY_BANDS.find(candidate => candidate.id === options.difficulty);
+  if (!band) return generate(firstSeed);
+
+  const seeds = createRandom(firstSeed);
+  let best: GeneratedMaze<Grid> | null = null;
+  let bestMiss = Infinity;
+  for (let attempt = 0; attempt < MAX_DIFFICULTY_ATTEMPTS && bestMiss > 0; attempt++) {
+    const generated = generate(attempt === 0 ? firstSeed : Math.floor(seeds() * SEED_RANGE));
+    const analysis = analyze(generated);
+    // How far the score lies outside the band, 0 inside it
+    const miss = Math.max(band.min - analysis.score, analysis.score - band.max, 0);
+    if (miss < bestMiss) {
+      best = { ...generated, analysis };
+      bestMiss = miss;
+    }
+  }
+  return best!;
+}
+
+/**
+ * Carves one square-cell maze from `seed`.
+ */
+function carvePackedMaze(options: MazeGenerationOptions, seed: number): GeneratedMaze<PackedMaze> {
+  const {
+    width, height, loops = DEFAULT_LOOPS, terrainCosts = [],
+    algorithm = DEFAULT_MAZE_ALGORITHM, growingTreeStrategy = GROWING_TREE_STRATEGIES[0].id,
+  } = options;
+  const random = createRandom(seed);
+  const maze = createPackedMaze(width, height);
+  const { walls } = maze;
+  const [start, exit] = pickCorners(width, height, random);
+  getMazeAlgorithm(algorithm).carve({ maze, random, start, growingTreeStrategy });
+
+  // Knock out extra interior walls so there is more than one route
+  const numWallsToRemove = width > 2 && height > 2 ? Math.floor(width * height * loops) : 0;
+  const offsets = [-width, 1, width, -1]; // index step to the neighbour in each direction
+  const closed: number[] = [];
+  let wallsRemoved = 0;
+  for (let attempt = 0; wallsRemoved < numWallsToRemove && attempt < numWallsToRemove * 10; attempt++) {
+    const index = (Math.floor(random() * (height - 2)) + 1) * width + Math.floor(random() * (width - 2)) + 1;
+    closed.length = 0;
+    for (let direction = 0; direction < 4; direction++) {
+      if (walls[index] & (1 << direction)) closed.push(direction);
+    }
+    if (closed.length === 0) continue;
+    const direction = closed[Math.floor(random() * closed.length)];
+    walls[index] &= ~(1 << direction);
+    walls[index + offsets[direction]] &= ~(1 << ((direction + 2) % 4));
+    wallsRemoved++;
+  }
+
+  if (terrainCosts.length > 0) {
+    // Paint small random-walk patches of terrain
+    const costs = new Float64Array(width * height).fill(1);
+    const steps = [[-1, 0], [1, 0], [0, -1], [0, 1]];
+    const numPatches = Math.floor((width * height) / TERRAIN_PATCH_AREA);
+    for (let p = 0; p < numPatches; p++) {
+      const cost = terrainCosts[Math.floor(random() * terrainCosts.length)];
+      let r = Math.floor(random() * height);
+      let c = Math.floor(random() * width);
+      for (let k = 0; k < TERRAIN_PATCH_SIZE; k++) {
+        costs[r * width + c] = cost;
+        const [dr, dc] = steps[Math.floor(random() * steps.length)];
+        r = Math.min(height - 1, Math.max(0, r + dr));
+        c = Math.min(width - 1, Math.max(0, c + dc));
+      }
+    }
+    // The start and exit stay plain
+    costs[start[1] * width + start[0]] = 1;
+    costs[exit[1] * width + exit[0]] = 1;
+    maze.costs = costs;
+  }
+
+  return { maze, start, exit, seed };
+}
+
+/**
+ * Carves one maze of hexagonal or triangular cells from `seed`.
+ */
+function carveShapedMaze(topology: Topology, options: MazeGenerationOptions, seed: number): GeneratedMaze<TopologyMaze> {
+  const { width, height, loops = DEFAULT_LOOPS, terrainCosts = [] } = options;
+  const random = createRandom(seed);
+  const [start, exit] = pickCorners(width, height, random);
+  const maze = carveTopologyMaze(topology, width, height, start[0], start[1], loops, random);
+
+  if (terrainCosts.length > 0) {
+    const numPatches = Math.floor((width * height) / TERRAIN_PATCH_AREA);
+    for (let p = 0; p < numPatches; p++) {
+      const cost = terrainCosts[Math.floor(random() * terrainCosts.length)];
+      let x = Math.floor(random() * width);
+      let y = Math.floor(random() * height);
+      for (let k = 0; k < TERRAIN_PATCH_SIZE; k++) {
+        maze[y][x].cost = cost;
+        const next = topology.neighbour(x, y, Math.floor(random() * topology.directions.length));
+        if (next && next[0] >= 0 && next[0] < width && next[1] >= 0 && next[1] < height) [x, y] = next;
+      }
+    }
+    delete maze[start[1]][start[0]].cost;
+    delete maze[exit[1]][exit[0]].cost;
+  }
+
+  return { maze, start, exit, seed };
+}
+
+/**
+ * Picks a random start among the four corners, one cell in from the edge, and the opposite corner as exit.
+ */
+function pickCorners(width: number, height: number, random: () => number): [[number, number], [number, number]] {
+  const left = Math.min(1, width - 1);
+  const top = Math.min(1, height - 1);
+  const right = Math.max(0, width - 2);
+  const bottom = Math.max(0, height - 2);
+  const corners: [number, number][] = [[left, top], [right, top], [left, bottom], [right, bottom]];
+  const index = Math.floor(random() * corners.length);
+  return [corners[index], corners[3 - index]];
+}
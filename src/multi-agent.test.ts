@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { planCooperativePaths, type AgentRequest, type MultiAgentPlan } from '@/multi-agent';
+import { assertWalk, closedMaze, open, perfectMaze, randomMaze } from '@/test-mazes';
+
+const AGENTS: AgentRequest[] = [
+  { start: [0, 0], goal: [8, 6] },
+  { start: [8, 6], goal: [0, 0] },
+  { start: [8, 0], goal: [0, 6] },
+  { start: [0, 6], goal: [8, 0] },
+  { start: [4, 3], goal: [4, 0] },
+];
+
+// Where each planned agent stands on `tick`; parked agents stay on their goal, unless they leave it
+function positionsAt(plan: MultiAgentPlan, agents: AgentRequest[], tick: number, leaveAtGoal: boolean): ([number, number] | null)[] {
+  return plan.paths.map((path, agent) => {
+    if (!plan.found[agent]) return null;
+    if (tick === 0) return agents[agent].start;
+    if (tick > path.length) return leaveAtGoal ? null : path[path.length - 1];
+    return path[tick - 1];
+  });
+}
+
+function assertNoCollisions(plan: MultiAgentPlan, agents: AgentRequest[], leaveAtGoal: boolean, message: string) {
+  const ticks = Math.max(...plan.paths.map(path => path.length)) + 1;
+  for (let tick = 1; tick <= ticks; tick++) {
+    const before = positionsAt(plan, agents, tick - 1, leaveAtGoal).map(cell => cell?.join());
+    const after = positionsAt(plan, agents, tick, leaveAtGoal).map(cell => cell?.join());
+    const occupied = after.filter(cell => cell !== undefined);
+    assert.equal(new Set(occupied).size, occupied.length, `${message}: two agents share a cell on tick ${tick}`);
+    for (let a = 0; a < agents.length; a++) {
+      for (let b = a + 1; b < agents.length; b++) {
+        if (!before[a] || !before[b] || !after[a] || !after[b]) continue;
+        assert.ok(after[a] !== before[b] || after[b] !== before[a], `${message}: agents ${a} and ${b} swap on tick ${tick}`);
+      }
+    }
+  }
+}
+
+describe('planCooperativePaths', () => {
+  it('routes every agent to its goal without sharing a cell or swapping', () => {
+    for (let seed = 1; seed <= 10; seed++) {
+      for (const maze of [perfectMaze(9, 7, seed), randomMaze(9, 7, seed)]) {
+        for (const leaveAtGoal of [false, true]) {
+          const plan = planCooperativePaths(maze, AGENTS, { leaveAtGoal });
+          plan.paths.forEach((path, agent) => {
+            if (!plan.found[agent]) return;
+            const moves = path.filter(([x, y], tick) => tick === 0 ? x !== AGENTS[agent].start[0] || y !== AGENTS[agent].start[1] : x !== path[tick - 1][0] || y !== path[tick - 1][1]);
+            assertWalk(maze, AGENTS[agent].start, moves);
+            assert.deepEqual(path.at(-1) ?? AGENTS[agent].start, AGENTS[agent].goal);
+          });
+          assertNoCollisions(plan, AGENTS, leaveAtGoal, `maze ${seed}, leaveAtGoal ${leaveAtGoal}`);
+        }
+      }
+      assert.ok(planCooperativePaths(perfectMaze(9, 7, seed), AGENTS.slice(0, 2)).found.every(Boolean), `maze ${seed}`);
+    }
+  });
+
+  it('makes the second agent wait or step aside in a corridor with one passing place', () => {
+    //  A . . . B   one corridor, with a side cell next to B
+    //        .
+    const maze = closedMaze(5, 2);
+    for (let x = 0; x < 4; x++) open(maze, x, 0, 1, 0);
+    open(maze, 3, 0, 0, 1);
+    const agents: AgentRequest[] = [{ start: [0, 0], goal: [4, 0] }, { start: [4, 0], goal: [0, 0] }];
+    const plan = planCooperativePaths(maze, agents, { leaveAtGoal: true });
+    assert.deepEqual(plan.found, [true, true]);
+    assert.equal(plan.paths[0].length, 4, 'the first agent goes straight through');
+    assert.ok(plan.paths[1].some(([x, y]) => x === 3 && y === 1), 'the second agent steps into the side cell');
+    assertNoCollisions(plan, agents, true, 'corridor');
+  });
+
+  it('keeps an agent in a cell for as many ticks as the cell costs', () => {
+    const maze = closedMaze(3, 1);
+    open(maze, 0, 0, 1, 0);
+    open(maze, 1, 0, 1, 0);
+    maze[0][1].cost = 3;
+    assert.deepEqual(planCooperativePaths(maze, [{ start: [0, 0], goal: [2, 0] }]).paths[0], [[1, 0], [1, 0], [1, 0], [2, 0]]);
+  });
+});
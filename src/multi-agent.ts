@@ -0,0 +1,184 @@
+/**
+ * @fileOverview Cooperative multi-agent pathfinding: space-time A* with a reservation table.
+ *
+ * - planCooperativePaths - Plans collision-free routes for several agents, one after another.
+ * - AgentRequest - Interface for one agent's start and goal.
+ * - MultiAgentPlan - Interface for the object returned by planCooperativePaths.
+ * - CooperativeOptions - Interface for the optional parameters of planCooperativePaths.
+ *
+ * Time advances in ticks. Each tick an agent either waits or moves to an open neighbour, and entering
+ * a cell with movement `cost` c keeps the agent there for c ticks, matching how the game slows players
+ * down on terrain. Agents are planned in the order given (prioritised planning): each one runs A* over
+ * (cell, tick) states and avoids the cells and moves reserved by the agents planned before it, so no two
+ * agents are ever in the same cell on the same tick or swap cells through each other. Agents sharing a
+ * start cell are allowed to overlap on tick 0 only.
+ * Prioritised planning is fast but not complete: an agent boxed in by one parked at its goal gets no
+ * route, and is reported in `found`.
+ */
+
+import { cellCost, openNeighbours } from '@/graph';
+import { gridSize, type GridMaze } from '@/packed-maze';
+import { trueDistances } from '@/heuristics';
+import { IndexedMinHeap } from '@/lib/indexed-min-heap';
+
+/**
+ * One agent to plan for.
+ */
+export interface AgentRequest {
+  start: [number, number];
+  goal: [number, number];
+}
+
+/**
+ * Optional parameters of planCooperativePaths.
+ */
+export interface CooperativeOptions {
+  leaveAtGoal?: boolean;  // agents disappear on reaching their goal (a race to a shared exit); otherwise they wait there forever
+  maxExpansions?: number; // space-time states each agent may expand before giving up, 20 * cells by default
+}
+
+/**
+ * Routes for every agent, in request order.
+ */
+export interface MultiAgentPlan {
+  paths: [number, number][][]; // position after each tick, excluding the start; a repeated cell is a wait, [] if not found
+  found: boolean[];
+  expanded: number;            // space-time states expanded over all agents
+}
+
+// Cells and moves claimed by the agents planned so far
+interface Reservations {
+  cells: Set<number>;         // tick * size + cell
+  moves: Map<number, Set<number>>; // tick * size + from -> cells entered from it on tick + 1
+  parkedFrom: Map<number, number>; // cell -> first tick an agent waits there forever
+}
+
+/**
+ * Plans routes for several agents so that they never collide.
+ * @param maze     2D array of MazeCell or a PackedMaze describing walls.
+ * @param agents   Start and goal of each agent, highest priority first.
+ * @param options  Optional parameters.
+ * @returns         Each agent's route, one entry per tick.
+ */
+export function planCooperativePaths(maze: GridMaze, agents: AgentRequest[], options: CooperativeOptions = {}): MultiAgentPlan {
+  const [width, height] = gridSize(maze);
+  const size = width * height;
+  const reservations: Reservations = { cells: new Set(), moves: new Map(), parkedFrom: new Map() };
+  const plan: MultiAgentPlan = { paths: [], found: [], expanded: 0 };
+  const distanceCache = new Map<number, Float64Array>();
+
+  for (const { start, goal } of agents) {
+    const goalIndex = goal[1] * width + goal[0];
+    let distance = distanceCache.get(goalIndex);
+    if (!distance) {
+      distance = trueDistances(maze, goal[0], goal[1]);
+      distanceCache.set(goalIndex, distance);
+    }
+    const { route, expanded } = spaceTimeAStar(maze, start[1] * width + start[0], goalIndex, distance, reservations, options);
+    plan.expanded += expanded;
+    plan.found.push(route !== null);
+    plan.paths.push(route ? route.slice(1).map(index => [index % width, Math.floor(index / width)]) : []);
+    if (route) reserve(route, size, reservations, !options.leaveAtGoal);
+  }
+  return plan;
+}
+
+/**
+ * Claims every (cell, tick) and move of a route. A parked agent keeps its final cell forever.
+ */
+function reserve(route: number[], size: number, reservations: Reservations, park: boolean): void {
+  for (let tick = 0; tick < route.length; tick++) {
+    reservations.cells.add(tick * size + route[tick]);
+    if (tick === 0) continue;
+    const from = (tick - 1) * size + route[tick - 1];
+    const entered = reservations.moves.get(from);
+    if (entered) entered.add(route[tick]);
+    else reservations.moves.set(from, new Set([route[tick]]));
+  }
+  if (park) {
+    const last = route[route.length - 1];
+    const parkedFrom = reservations.parkedFrom.get(last);
+    reservations.parkedFrom.set(last, Math.min(parkedFrom ?? Infinity, route.length - 1));
+  }
+}
+
+/**
+ * Space-time A* for one agent against the reservation table.
+ * @returns The cell occupied on every tick from 0 (the start) to arrival, or null if no route was
+ *          found within the expansion limit.
+ */
+function spaceTimeAStar(
+  maze: GridMaze,
+  start: number,
+  goal: number,
+  distance: Float64Array,
+  { cells, moves, parkedFrom }: Reservations,
+  { leaveAtGoal = false, maxExpansions }: CooperativeOptions
+): { route: number[] | null; expanded: number } {
+  const [width, height] = gridSize(maze);
+  const size = width * height;
+  const limit = maxExpansions ?? size * 20;
+  if (distance[start] === Infinity) return { route: null, expanded: 0 };
+
+  // The last tick any other agent passes through the goal; stopping there earlier would be run into
+  let goalBusyUntil = -1;
+  if (!leaveAtGoal) {
+    for (const key of cells) {
+      if (key % size === goal) goalBusyUntil = Math.max(goalBusyUntil, Math.floor(key / size));
+    }
+  }
+  const isFree = (cell: number, tick: number) => tick === 0 || (!cells.has(tick * size + cell) && tick < (parkedFrom.get(cell) ?? Infinity));
+
+  // Space-time states get compact ids as they are discovered; a state's tick is its cost, so the
+  // first parent found is as good as any
+  const ids = new Map<number, number>(); // tick * size + cell -> state id
+  const stateCell: number[] = [];
+  const stateTick: number[] = [];
+  const parent: number[] = [];
+  const open = new IndexedMinHeap(size); // grows past one state per cell only when waits and detours need it
+  const neighbours: number[] = [];
+  const discover = (cell: number, tick: number, from: number) => {
+    const key = tick * size + cell;
+    if (ids.has(key)) return;
+    const id = stateCell.length;
+    ids.set(key, id);
+    stateCell.push(cell);
+    stateTick.push(tick);
+    parent.push(from);
+    // Later ticks first among equal estimates, so waiting is tried last
+    open.push(id, tick + distance[cell], -tick);
+  };
+
+  discover(start, 0, -1);
+  let expanded = 0;
+  while (!open.isEmpty() && expanded < limit) {
+    const id = open.pop();
+    expanded++;
+    const cell = stateCell[id];
+    const tick = stateTick[id];
+    if (cell === goal && (leaveAtGoal || tick > goalBusyUntil)) {
+      // Repeat each cell for every tick spent in it
+      const route: number[] = [];
+      for (let state = id; state !== -1; state = parent[state]) {
+        const ticks = parent[state] === -1 ? 1 : stateTick[state] - stateTick[parent[state]];
+        for (let t = 0; t < ticks; t++) route.push(stateCell[state]);
+      }
+      return { route: route.reverse(), expanded };
+    }
+
+    // Wait one tick, or move and stay `cost` ticks in the new cell
+    const tryMove = (next: number, ticks: number) => {
+      for (let t = tick + 1; t <= tick + ticks; t++) {
+        if (!isFree(next, t)) return;
+      }
+      discover(next, tick + ticks, id);
+    };
+    tryMove(cell, 1);
+    for (const next of openNeighbours(maze, cell, neighbours)) {
+      // A swap: the agent in `next` moves into `cell` on the same tick
+      if (moves.get(tick * size + next)?.has(cell)) continue;
+      tryMove(next, Math.max(1, Math.ceil(cellCost(maze, next))));
+    }
+  }
+  return { route: null, expanded };
+}
@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createOnlineAgent, getOnlineAgents, type OnlineAgent } from '@/online-agents';
+import { assertWalk, cheapestCost, closedMaze, open, perfectMaze, randomMaze } from '@/test-mazes';
+
+// Steps the agent until it stops, or gives up on it after `limit` moves
+function walk(agent: OnlineAgent, limit: number): [number, number][] {
+  const moves: [number, number][] = [];
+  for (let move = agent.step(); move && moves.length < limit; move = agent.step()) moves.push(move);
+  return moves;
+}
+
+describe('online agents', () => {
+  it('each reach the exit of a perfect maze, one open move at a time', () => {
+    for (let seed = 1; seed <= 10; seed++) {
+      const maze = perfectMaze(12, 9, seed);
+      for (const { id } of getOnlineAgents()) {
+        const agent = createOnlineAgent(id, maze, 0, 0, 11, 8);
+        const moves = walk(agent, 12 * 9 * 4);
+        assertWalk(maze, [0, 0], moves);
+        assert.deepEqual(agent.position, [11, 8], `${id} in maze ${seed}`);
+        assert.equal(agent.step(), null, `${id} keeps moving at the exit`);
+      }
+    }
+  });
+
+  it('reach the exit of a braided maze whenever it is reachable, if they remember where they have been', () => {
+    for (let seed = 1; seed <= 10; seed++) {
+      const maze = randomMaze(12, 9, seed);
+      const reachable = cheapestCost(maze, [0, 0], [11, 8]) < Infinity;
+      for (const id of ['frontier', 'tremaux']) {
+        const agent = createOnlineAgent(id, maze, 0, 0, 11, 8, { sightRadius: seed % 3 });
+        assertWalk(maze, [0, 0], walk(agent, 12 * 9 * 4));
+        assert.equal(agent.position[0] === 11 && agent.position[1] === 8, reachable, `${id} in maze ${seed}`);
+      }
+    }
+  });
+
+  it('give up once every cell they can reach has been explored', () => {
+    const maze = closedMaze(4, 4);
+    open(maze, 0, 0, 1, 0);
+    open(maze, 1, 0, 0, 1);
+    for (const id of ['frontier', 'tremaux']) {
+      const agent = createOnlineAgent(id, maze, 0, 0, 3, 3);
+      assert.ok(walk(agent, 100).length < 100, `${id} wandered on`);
+      assert.equal(agent.step(), null);
+    }
+  });
+
+  it('perceive the cells within their sight radius', () => {
+    const maze = perfectMaze(12, 9, 1);
+    assert.equal(createOnlineAgent('frontier', maze, 0, 0, 11, 8).seenCells, 1);
+    assert.equal(createOnlineAgent('frontier', maze, 0, 0, 11, 8, { sightRadius: 2 }).seenCells, 9);
+    assert.equal(createOnlineAgent('frontier', maze, 5, 5, 11, 8, { sightRadius: 1 }).seenCells, 9);
+  });
+});
@@ -0,0 +1,412 @@
+/**
+ * @fileOverview Online maze-exploration agents that only know the walls they have seen.
+ *
+ * - createOnlineAgent - Creates an agent that picks one move at a time from what it has perceived.
+ * - registerOnlineAgent - Adds (or replaces) an agent strategy in the registry.
+ * - getOnlineAgents - Returns every registered strategy, for dynamic UI generation.
+ * - DEFAULT_ONLINE_AGENT - Id of the strategy used when none is given.
+ * - OnlineAgent - Interface of the object returned by createOnlineAgent.
+ * - OnlineAgentDescriptor - Interface for a registry entry.
+ * - OnlineAgentOptions - Interface for the optional parameters of createOnlineAgent.
+ * - MazeMemory - The walls an agent has perceived; what strategies plan with.
+ *
+ * Unlike the searches in pathfinder.ts, an agent never reads the maze directly. After every move it
+ * perceives the walls of the cells within its sight radius (Chebyshev distance, 0 = only the cell it
+ * stands on) and decides its next move from that memory alone. It does know where the exit is, just
+ * like a human player who can see it on screen.
+ *
+ * Cells are addressed by their index `y * width + x`; directions are 0 = north, 1 = east,
+ * 2 = south, 3 = west, so turning right adds 1 and turning left adds 3 (mod 4).
+ */
+
+import { gridSize, wallsAt, type GridMaze } from '@/packed-maze';
+
+/**
+ * An agent walking through a maze it discovers as it goes.
+ */
+export interface OnlineAgent {
+  readonly position: [number, number];
+  readonly seenCells: number; // cells whose walls the agent has perceived so far
+  /**
+   * Decides and takes the next move.
+   * @returns The cell moved into (always an open neighbour), or null at the exit or when the agent gives up.
+   */
+  step(): [number, number] | null;
+  hasSeen(x: number, y: number): boolean;
+  /**
+   * Switches to a new version of the maze, the same size, after walls moved. The agent notices the
+   * changes as it looks around, like any wall it has not seen yet.
+   */
+  setMaze(maze: GridMaze): void;
+}
+
+/**
+ * Optional parameters of createOnlineAgent.
+ */
+export interface OnlineAgentOptions {
+  sightRadius?: number; // cells perceived around the agent, 0 by default
+}
+
+/**
+ * What a strategy can use to decide: its memory of the maze and where it is headed.
+ */
+export interface AgentContext {
+  memory: MazeMemory;
+  start: number;
+  goal: number;
+}
+
+/**
+ * A registry entry. `create` returns a function that is called once per tick with the agent's
+ * cell and answers the direction to move in, or -1 to stop. The move is always carried out.
+ */
+export interface OnlineAgentDescriptor {
+  id: string;
+  label: string;
+  description: string;
+  create: (context: AgentContext) => (position: number) => number;
+}
+
+/**
+ * Id of the strategy used when none is given.
+ */
+export const DEFAULT_ONLINE_AGENT = 'frontier';
+
+const WALL_BITS = [1, 2, 4, 8]; // north, east, south, west
+const LEFT_HAND = [-1, 0, 1, 2];  // turns tried in order to keep the left hand on the wall
+const RIGHT_HAND = [1, 0, -1, 2];
+const DX = [0, 1, 0, -1];
+const DY = [-1, 0, 1, 0];
+
+/**
+ * The walls an agent has perceived. Unseen cells are treated as unknown, never as open.
+ */
+export class MazeMemory {
+  readonly width: number;
+  readonly height: number;
+  private readonly walls: Uint8Array; // wall bitmask of each seen cell
+  private readonly seen: Uint8Array;
+  private seenCount = 0;
+
+  /**
+   * @param maze        The real maze, MazeCell[][] or PackedMaze, only read through `look`.
+   * @param sightRadius Chebyshev radius of the cells perceived around the agent.
+   */
+  constructor(private maze: GridMaze, private readonly sightRadius: number) {
+    [this.width, this.height] = gridSize(maze);
+    this.walls = new Uint8Array(this.width * this.height);
+    this.seen = new Uint8Array(this.width * this.height);
+  }
+
+  /** Number of cells perceived so far. */
+  get seenCells(): number {
+    return this.seenCount;
+  }
+
+  /**
+   * Perceives the walls of every cell within the sight radius of `index`. Cells seen before are
+   * refreshed, so an agent notices walls that moved while it was away.
+   */
+  look(index: number): void {
+    const x = index % this.width;
+    const y = (index - x) / this.width;
+    const r = this.sightRadius;
+    for (let cy = Math.max(0, y - r); cy <= Math.min(this.height - 1, y + r); cy++) {
+      for (let cx = Math.max(0, x - r); cx <= Math.min(this.width - 1, x + r); cx++) {
+        const cell = cy * this.width + cx;
+        this.walls[cell] = wallsAt(this.maze, cell);
+        if (!this.seen[cell]) {
+          this.seen[cell] = 1;
+          this.seenCount++;
+        }
+      }
+    }
+  }
+
+  hasSeen(index: number): boolean {
+    return this.seen[index] === 1;
+  }
+
+  /**
+   * Reads later looks from `maze`, a new version of the real maze with the same size.
+   */
+  setMaze(maze: GridMaze): void {
+    this.maze = maze;
+  }
+
+  /**
+   * Returns the neighbour of `index` in `direction`, or -1 outside the maze.
+   */
+  neighbour(index: number, direction: number): number {
+    const x = index % this.width + DX[direction];
+    const y = Math.floor(index / this.width) + DY[direction];
+    return x < 0 || x >= this.width || y < 0 || y >= this.height ? -1 : y * this.width + x;
+  }
+
+  /**
+   * Whether the agent knows it can move from `index` in `direction`. A wall is known once either
+   * of the two cells it separates has been seen.
+   */
+  isOpen(index: number, direction: number): boolean {
+    const next = this.neighbour(index, direction);
+    if (next === -1) return false;
+    if (this.seen[index]) return (this.walls[index] & WALL_BITS[direction]) === 0;
+    if (this.seen[next]) return (this.walls[next] & WALL_BITS[(direction + 2) % 4]) === 0;
+    return false;
+  }
+
+  /**
+   * Manhattan distance between two cells.
+   */
+  distance(a: number, b: number): number {
+    return Math.abs(a % this.width - b % this.width) + Math.abs(Math.floor(a / this.width) - Math.floor(b / this.width));
+  }
+}
+
+const registry = new Map<string, OnlineAgentDescriptor>();
+
+/**
+ * Adds an agent strategy to the registry, replacing any entry with the same id.
+ * @param descriptor The strategy's id, labels and factory.
+ */
+export function registerOnlineAgent(descriptor: OnlineAgentDescriptor): void {
+  registry.set(descriptor.id, descriptor);
+}
+
+/**
+ * Returns the registered strategies, in registration order, for dynamic UI generation.
+ */
+export function getOnlineAgents(): OnlineAgentDescriptor[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Creates an agent at (startX, startY) that explores toward (endX, endY).
+ * @param strategy Registered strategy id; unknown ids fall back to DEFAULT_ONLINE_AGENT.
+ * @param maze     2D array of MazeCell or a PackedMaze describing walls; the agent only sees it through its sight radius.
+ * @param startX   Starting column index.
+ * @param startY   Starting row index.
+ * @param endX     Exit column index.
+ * @param endY     Exit row index.
+ * @param options  Optional parameters, such as the sight radius.
+ * @returns         The agent.
+ */
+export function createOnlineAgent(
+  strategy: string,
+  maze: GridMaze,
+  startX: number,
+  startY: number,
+  endX: number,
+  endY: number,
+  options: OnlineAgentOptions = {}
+): OnlineAgent {
+  const memory = new MazeMemory(maze, Math.max(0, options.sightRadius ?? 0));
+  const width = memory.width;
+  const start = startY * width + startX;
+  const goal = endY * width + endX;
+  const descriptor = registry.get(strategy) ?? registry.get(DEFAULT_ONLINE_AGENT)!;
+  const chooseDirection = descriptor.create({ memory, start, goal });
+  let position = start;
+  memory.look(position);
+
+  return {
+    get position(): [number, number] {
+      return [position % width, Math.floor(position / width)];
+    },
+    get seenCells() {
+      return memory.seenCells;
+    },
+    step() {
+      if (position === goal) return null;
+      memory.look(position); // The walls may have changed since the last move
+      const direction = chooseDirection(position);
+      if (direction === -1 || !memory.isOpen(position, direction)) return null;
+      position = memory.neighbour(position, direction);
+      memory.look(position);
+      return [position % width, Math.floor(position / width)];
+    },
+    hasSeen(x: number, y: number) {
+      return memory.hasSeen(y * width + x);
+    },
+    setMaze(maze: GridMaze) {
+      memory.setMaze(maze);
+    },
+  };
+}
+
+/**
+ * Returns the first of `turns` (relative to `heading`, in quarter turns to the right) that is open.
+ * @returns The turn taken, or null if the agent is walled in.
+ */
+function firstOpenTurn(memory: MazeMemory, position: number, heading: number, turns: number[]): number | null {
+  for (const turn of turns) {
+    if (memory.isOpen(position, (heading + turn + 4) % 4)) return turn;
+  }
+  return null;
+}
+
+/**
+ * Direction in which `goal` lies furthest from `position`.
+ */
+function directionToward(memory: MazeMemory, position: number, goal: number): number {
+  const dx = goal % memory.width - position % memory.width;
+  const dy = Math.floor(goal / memory.width) - Math.floor(position / memory.width);
+  if (Math.abs(dx) >= Math.abs(dy)) return dx >= 0 ? 1 : 3;
+  return dy >= 0 ? 2 : 0;
+}
+
+/**
+ * Wall follower: keeps one hand on the wall. Needs only the walls of its own cell, but circles
+ * forever when the exit is not on the wall it started next to, as happens in braided mazes.
+ */
+function wallFollower(turns: number[]): OnlineAgentDescriptor['create'] {
+  return ({ memory, start, goal }) => {
+    let heading = directionToward(memory, start, goal);
+    return position => {
+      const turn = firstOpenTurn(memory, position, heading, turns);
+      if (turn === null) return -1;
+      heading = (heading + turn + 4) % 4;
+      return heading;
+    };
+  };
+}
+
+registerOnlineAgent({
+  id: 'frontier',
+  label: 'Frontier explorer',
+  description: 'Replans every move: walks the known route to the exit if there is one, otherwise to the unexplored opening that looks closest to the exit.',
+  create: ({ memory, goal }) => {
+    const size = memory.width * memory.height;
+    const distance = new Int32Array(size);
+    const firstMove = new Int8Array(size); // direction of the first step on the route to each cell
+    const queue = new Int32Array(size);
+    return position => {
+      // Breadth-first over the cells the agent knows it can reach; unseen cells are frontier targets
+      distance.fill(-1);
+      let head = 0;
+      let tail = 0;
+      distance[position] = 0;
+      queue[tail++] = position;
+      let best = -1;
+      let bestScore = Infinity;
+      while (head < tail) {
+        const current = queue[head++];
+        if (current === goal) return firstMove[current];
+        if (!memory.hasSeen(current)) {
+          // A frontier cell: worth visiting by how far it is plus how far it leaves us from the exit
+          const score = distance[current] + memory.distance(current, goal);
+          if (score < bestScore) {
+            best = current;
+            bestScore = score;
+          }
+          continue;
+        }
+        for (let direction = 0; direction < 4; direction++) {
+          if (!memory.isOpen(current, direction)) continue;
+          const next = memory.neighbour(current, direction);
+          if (distance[next] !== -1) continue;
+          distance[next] = distance[current] + 1;
+          firstMove[next] = current === position ? direction : firstMove[current];
+          queue[tail++] = next;
+        }
+      }
+      return best === -1 ? -1 : firstMove[best];
+    };
+  },
+});
+
+registerOnlineAgent({
+  id: 'tremaux',
+  label: 'Trémaux',
+  description: 'Marks every passage it walks. Prefers unmarked passages, turns back at junctions it has already visited, and never walks a passage a third time, so it always finds the exit.',
+  create: ({ memory, start, goal }) => {
+    const size = memory.width * memory.height;
+    const marks = new Uint8Array(size * 2); // times each passage was walked: 2i = east of cell i, 2i + 1 = south of it
+    const visited = new Uint8Array(size);
+    const passage = (index: number, direction: number) => {
+      switch (direction) {
+        case 0: return (index - memory.width) * 2 + 1;
+        case 1: return index * 2;
+        case 2: return index * 2 + 1;
+        default: return (index - 1) * 2;
+      }
+    };
+    let cameFrom = -1; // direction back to the previous cell
+    visited[start] = 1;
+    return position => {
+      const open = [0, 1, 2, 3].filter(direction => memory.isOpen(position, direction));
+      let choice = -1;
+      if (cameFrom !== -1 && visited[position] === 2 && marks[passage(position, cameFrom)] === 1) {
+        // Reached an old junction through a new passage: go back the way we came
+        choice = cameFrom;
+      } else {
+        let bestMarks = 2;
+        let bestDistance = Infinity;
+        for (const direction of open) {
+          const passageMarks = marks[passage(position, direction)];
+          const distance = memory.distance(memory.neighbour(position, direction), goal);
+          if (passageMarks < bestMarks || (passageMarks === bestMarks && distance < bestDistance)) {
+            choice = direction;
+            bestMarks = passageMarks;
+            bestDistance = distance;
+          }
+        }
+      }
+      if (choice === -1) return -1;
+      marks[passage(position, choice)]++;
+      visited[position] = 2;
+      const next = memory.neighbour(position, choice);
+      if (!visited[next]) visited[next] = 1;
+      cameFrom = (choice + 2) % 4;
+      return choice;
+    };
+  },
+});
+
+registerOnlineAgent({
+  id: 'pledge',
+  label: 'Pledge',
+  description: 'Heads toward the exit until blocked, then follows the wall with its left hand while counting its turns, and leaves the wall once the count is back to zero. Escapes any obstacle, but can circle around an exit inside the maze.',
+  create: ({ memory, start, goal }) => {
+    const preferred = directionToward(memory, start, goal);
+    let heading = preferred;
+    let turnSum = 0; // net quarter turns to the right while following a wall
+    let following = false;
+    return position => {
+      if (following && turnSum === 0) following = false;
+      if (!following) {
+        if (memory.isOpen(position, preferred)) {
+          heading = preferred;
+          return heading;
+        }
+        following = true;
+        // Face right with the blocking wall on the left hand, then take the first turn that hand allows
+        const facing = (preferred + 1) % 4;
+        const turn = firstOpenTurn(memory, position, facing, LEFT_HAND);
+        if (turn === null) return -1;
+        turnSum = 1 + turn;
+        heading = (facing + turn + 4) % 4;
+        return heading;
+      }
+      const turn = firstOpenTurn(memory, position, heading, LEFT_HAND);
+      if (turn === null) return -1;
+      turnSum += turn;
+      heading = (heading + turn + 4) % 4;
+      return heading;
+    };
+  },
+});
+
+registerOnlineAgent({
+  id: 'wall-follower-left',
+  label: 'Wall follower (left hand)',
+  description: 'Keeps its left hand on the wall. Solves mazes whose exit is on the same wall as the start, but can circle forever in braided mazes.',
+  create: wallFollower(LEFT_HAND),
+});
+
+registerOnlineAgent({
+  id: 'wall-follower-right',
+  label: 'Wall follower (right hand)',
+  description: 'Keeps its right hand on the wall. Solves mazes whose exit is on the same wall as the start, but can circle forever in braided mazes.',
+  create: wallFollower(RIGHT_HAND),
+});
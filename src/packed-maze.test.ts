@@ -0,0 +1,59 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createPackedMaze, gridSize, packMaze, unpackMaze, wallsAt, WALL_EAST, WALL_NORTH, WALL_SOUTH, WALL_WEST } from '@/packed-maze';
+import { generatePackedMaze } from '@/maze-generator';
+import { getMazeAlgorithms } from '@/maze-algorithms';
+import { DStarLite, getSearchMethods, search } from '@/pathfinder';
+import { trueDistances } from '@/heuristics';
+import { createOnlineAgent } from '@/online-agents';
+import { planCooperativePaths, type AgentRequest } from '@/multi-agent';
+import { closedMaze, randomMaze } from '@/test-mazes';
+
+describe('packed mazes', () => {
+  it('pack and unpack walls and costs without loss', () => {
+    for (let seed = 1; seed <= 5; seed++) {
+      const maze = randomMaze(9, 7, seed);
+      const packed = packMaze(maze);
+      assert.deepEqual(gridSize(packed), [9, 7]);
+      assert.deepEqual(unpackMaze(packed), maze);
+      for (let index = 0; index < 63; index++) assert.equal(wallsAt(packed, index), wallsAt(maze, index));
+    }
+  });
+
+  it('only store costs when some cell has one', () => {
+    assert.equal(packMaze(closedMaze(4, 3)).costs, undefined);
+    const closed = createPackedMaze(4, 3);
+    assert.ok(closed.walls.every(bits => bits === (WALL_NORTH | WALL_EAST | WALL_SOUTH | WALL_WEST)));
+    assert.deepEqual(unpackMaze(closed), closedMaze(4, 3));
+    assert.deepEqual(gridSize([]), [0, 0]);
+  });
+
+  it('search, measure and plan the same as the MazeCell grid they pack', () => {
+    for (let seed = 1; seed <= 3; seed++) {
+      const maze = randomMaze(9, 7, seed);
+      const packed = packMaze(maze);
+      for (const method of getSearchMethods()) {
+        assert.deepEqual(search(0, 0, 8, 6, method, packed).path, search(0, 0, 8, 6, method, maze).path, `${method} in maze ${seed}`);
+      }
+      assert.deepEqual(search(0, 0, 8, 6, 'ASTAR', packed, { diagonal: true, heuristic: 'octile' }).path, search(0, 0, 8, 6, 'ASTAR', maze, { diagonal: true, heuristic: 'octile' }).path);
+      assert.deepEqual(trueDistances(packed, 8, 6, true), trueDistances(maze, 8, 6, true));
+      assert.deepEqual(new DStarLite(packed, 0, 0, 8, 6).path(), new DStarLite(maze, 0, 0, 8, 6).path());
+      const agents: AgentRequest[] = [{ start: [0, 0], goal: [8, 6] }, { start: [8, 6], goal: [0, 0] }];
+      assert.deepEqual(planCooperativePaths(packed, agents), planCooperativePaths(maze, agents));
+      const onPacked = createOnlineAgent('tremaux', packed, 0, 0, 8, 6);
+      const onGrid = createOnlineAgent('tremaux', maze, 0, 0, 8, 6);
+      for (let step = 0; step < 50; step++) assert.deepEqual(onPacked.step(), onGrid.step());
+    }
+  });
+});
+
+describe('large packed mazes', () => {
+  it('generate and solve without running out of stack', () => {
+    for (const { id } of getMazeAlgorithms()) {
+      const { maze, start, exit } = generatePackedMaze({ width: 300, height: 300, seed: 1, algorithm: id, loops: 0 });
+      for (const method of ['DFS', 'BFS', 'ASTAR'] as const) {
+        assert.equal(search(start[0], start[1], exit[0], exit[1], method, maze).found, true, `${method} on ${id}`);
+      }
+    }
+  });
+});
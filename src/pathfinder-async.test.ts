@@ -0,0 +1,29 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { search } from '@/pathfinder';
+import { searchAsync } from '@/pathfinder-async';
+import { randomMaze } from '@/test-mazes';
+
+// Node has no Web Worker, so these exercise the same-thread fallback that tests and scripts get
+describe('searchAsync', () => {
+  it('resolves with what search returns', async () => {
+    const maze = randomMaze(9, 7, 1);
+    const result = await searchAsync(0, 0, 8, 6, 'ASTAR', maze, { heuristic: 'euclidean' });
+    const expected = search(0, 0, 8, 6, 'ASTAR', maze, { heuristic: 'euclidean' });
+    assert.deepEqual(result.path, expected.path);
+    assert.deepEqual(result.explored, expected.explored);
+  });
+
+  it('reports progress while it searches', async () => {
+    const seen: number[] = [];
+    await searchAsync(0, 0, 8, 6, 'BFS', randomMaze(9, 7, 1), { progressInterval: 1, onProgress: ({ expanded }) => seen.push(expanded) });
+    assert.ok(seen.length > 0);
+    for (let i = 1; i < seen.length; i++) assert.ok(seen[i] > seen[i - 1]);
+  });
+
+  it('rejects with the abort reason once the signal is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort(new Error('new maze'));
+    await assert.rejects(searchAsync(0, 0, 8, 6, 'BFS', randomMaze(9, 7, 1), { signal: controller.signal }), /new maze/);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * @fileOverview Asynchronous, cancellable front end for pathfinder.ts that runs searches in a Web Worker.
+ *
+ * - searchAsync - Runs `search` in a worker and resolves with its SearchResult.
+ * - searchTopologyAsync - The same for hexagonal, triangular and other shaped mazes from topology.ts.
+ * - AsyncSearchOptions - SearchOptions plus an AbortSignal.
+ * - SolveRequest / SolveResponse - Messages exchanged with pathfinder.worker.ts.
+ *
+ * Each call gets its own worker, which is terminated when the search finishes or is aborted, so an
+ * aborted search stops immediately and can never deliver a stale result. Where workers are not
+ * available (Node scripts, tests), and for custom heuristic functions, which cannot be sent to a
+ * worker, the search runs on the calling thread instead; it then cannot be interrupted, but an abort
+ * still rejects the promise.
+ *
+ * The worker only knows the built-in search methods and heuristics: plugins registered on the main
+ * thread must also be imported by pathfinder.worker.ts to be usable here.
+ */
+
+import { search, searchGraph, SearchMethod, SearchOptions, SearchProgress, SearchResult, GridMaze } from '@/pathfinder';
+import { getTopology, TopologyGraph, type TopologyMaze } from '@/topology';
+
+/**
+ * Options for searchAsync. `onProgress` is called on the calling thread.
+ */
+export interface AsyncSearchOptions extends SearchOptions {
+  signal?: AbortSignal; // aborting rejects the promise with the signal's reason
+}
+
+/**
+ * Message sent to the worker.
+ */
+export interface SolveRequest {
+  startX: number;
+  startY: number;
+  endX: number;
+  endY: number;
+  method: SearchMethod;
+  maze: GridMaze | TopologyMaze; // a TopologyMaze when `topology` is set
+  topology?: string;             // id of the shape of a TopologyMaze's cells; square-cell mazes omit it
+  options: Omit<SearchOptions, 'onProgress' | 'heuristic'> & { heuristic?: string };
+}
+
+/**
+ * Messages sent back by the worker: progress while searching, then a result or an error.
+ */
+export type SolveResponse =
+  | { type: 'progress'; progress: SearchProgress }
+  | { type: 'result'; result: SearchResult }
+  | { type: 'error'; message: string };
+
+/**
+ * Runs the specified algorithm without blocking the calling thread.
+ * @param startX Starting column index.
+ * @param startY Starting row index.
+ * @param endX   Exit column index.
+ * @param endY   Exit row index.
+ * @param method Which algorithm to use ('DFS', 'BFS', 'ASTAR', etc.).
+ * @param maze   2D array of MazeCell or a PackedMaze describing walls.
+ * @param options Search options, an optional AbortSignal and an optional progress callback.
+ * @returns       Promise of the SearchResult that `search` would return; rejects if aborted.
+ */
+export function searchAsync(
+  startX: number,
+  startY: number,
+  endX: number,
+  endY: number,
+  method: SearchMethod,
+  maze: GridMaze,
+  options: AsyncSearchOptions = {}
+): Promise<SearchResult> {
+  const { signal, onProgress, heuristic, ...searchOptions } = options;
+  if (typeof heuristic === 'function') {
+    return runHere(() => search(startX, startY, endX, endY, method, maze, { ...searchOptions, heuristic, onProgress }), signal);
+  }
+  return solveAsync({ startX, startY, endX, endY, method, maze, options: { ...searchOptions, heuristic } }, signal, onProgress);
+}
+
+/**
+ * Runs the specified algorithm on a shaped maze without blocking the calling thread.
+ * @param topology Id of the shape of the maze's cells, e.g. 'hex'.
+ * @param startX   Starting column index.
+ * @param startY   Starting row index.
+ * @param endX     Exit column index.
+ * @param endY     Exit row index.
+ * @param method   Which algorithm to use ('DFS', 'BFS', 'ASTAR', etc.).
+ * @param maze     The maze's cells and walls.
+ * @param options  Search options, an optional AbortSignal and an optional progress callback. There is
+ *                 no heuristic to choose: the shape's own distance is used.
+ * @returns         Promise of the SearchResult that searchGraph on a TopologyGraph would return; rejects if aborted.
+ */
+export function searchTopologyAsync(
+  topology: string,
+  startX: number,
+  startY: number,
+  endX: number,
+  endY: number,
+  method: SearchMethod,
+  maze: TopologyMaze,
+  options: Omit<AsyncSearchOptions, 'heuristic'> = {}
+): Promise<SearchResult> {
+  const { signal, onProgress, ...searchOptions } = options;
+  return solveAsync({ startX, startY, endX, endY, method, maze, topology, options: searchOptions }, signal, onProgress);
+}
+
+// Runs a search on the calling thread, for when it cannot go to a worker; an abort still rejects
+function runHere(run: () => SearchResult, signal: AbortSignal | undefined): Promise<SearchResult> {
+  if (signal?.aborted) return Promise.reject(signal.reason);
+  return new Promise((resolve, reject) => {
+    const result = run();
+    if (signal?.aborted) reject(signal.reason);
+    else resolve(result);
+  });
+}
+
+// Answers a request the way pathfinder.worker.ts does, on the calling thread
+function solveHere({ startX, startY, endX, endY, method, maze, topology, options }: SolveRequest, onProgress?: (progress: SearchProgress) => void): SearchResult {
+  if (topology === undefined) return search(startX, startY, endX, endY, method, maze as GridMaze, { ...options, onProgress });
+  const graph = new TopologyGraph(getTopology(topology), maze as TopologyMaze);
+  return searchGraph(graph, [startX, startY], [endX, endY], method, { ...options, onProgress });
+}
+
+// Sends the request to a fresh worker, or answers it here where workers are not available
+function solveAsync(
+  request: SolveRequest,
+  signal: AbortSignal | undefined,
+  onProgress: ((progress: SearchProgress) => void) | undefined
+): Promise<SearchResult> {
+  if (typeof Worker === 'undefined') return runHere(() => solveHere(request, onProgress), signal);
+  if (signal?.aborted) return Promise.reject(signal.reason);
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./pathfinder.worker.ts', import.meta.url));
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', abort);
+    };
+    const abort = () => {
+      finish();
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', abort, { once: true });
+
+    worker.onmessage = (event: MessageEvent<SolveResponse>) => {
+      const response = event.data;
+      if (response.type === 'progress') {
+        onProgress?.(response.progress);
+        return;
+      }
+      finish();
+      if (response.type === 'result') resolve(response.result);
+      else reject(new Error(response.message));
+    };
+    worker.onerror = event => {
+      finish();
+      reject(new Error(event.message || 'The search worker failed.'));
+    };
+
+    worker.postMessage(request);
+  });
+}
@@ -0,0 +1,428 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DStarLite, describeSearchMethod, findPath, getSearchMethods, registerSearchMethod, reportProgress, search, searchSteps, type SearchAlgorithm } from '@/pathfinder';
+import { assertWalk, cheapestCost, closedMaze, open, randomMaze, twoRoutes, type Cell } from '@/test-mazes';
+
+// IDDFS and IDA* expand cells again in every iteration, so they list the start and repeat cells
+const iterative = (method: string) => method.startsWith('IDDFS') || method.startsWith('IDA_STAR');
+
+// A 9x7 grid with no inner walls
+function open9x7(): Cell[][] {
+  const maze = closedMaze(9, 7);
+  for (let y = 0; y < 7; y++) {
+    for (let x = 0; x < 9; x++) {
+      if (x < 8) open(maze, x, y, 1, 0);
+      if (y < 6) open(maze, x, y, 0, 1);
+    }
+  }
+  return maze;
+}
+
+describe('findPath', () => {
+  it('finds a shortest route with BFS and A*', () => {
+    const maze = twoRoutes();
+    for (const method of ['BFS', 'ASTAR'] as const) {
+      const path = findPath(0, 0, 3, 0, method, maze);
+      assertWalk(maze, [0, 0], path);
+      assert.equal(path.length, 3, method);
+      assert.deepEqual(path.at(-1), [3, 0]);
+    }
+  });
+
+  it('finds some route with DFS', () => {
+    const maze = twoRoutes();
+    const path = findPath(0, 0, 3, 0, 'DFS', maze);
+    assertWalk(maze, [0, 0], path);
+    assert.deepEqual(path.at(-1), [3, 0]);
+  });
+
+  it('returns no route when the exit is walled off', () => {
+    const maze = closedMaze(3, 3);
+    open(maze, 0, 0, 1, 0);
+    for (const method of getSearchMethods().filter(method => !method.endsWith('_EXPLORE'))) {
+      assert.deepEqual(findPath(0, 0, 2, 2, method, maze), [], method);
+    }
+  });
+});
+
+describe('search', () => {
+  it('reports the route, the expansion order and matching stats', () => {
+    const maze = twoRoutes();
+    for (const method of getSearchMethods()) {
+      const result = search(0, 0, 3, 0, method, maze);
+      assert.equal(result.found, true, method);
+      assertWalk(maze, [0, 0], result.path);
+      assert.equal(result.stats.pathCost, result.path.length, method);
+      assert.equal(result.stats.expanded, result.explored.length + 1, `${method} counts the start as expanded`);
+      if (!iterative(method)) assert.ok(!result.explored.some(([x, y]) => x === 0 && y === 0), `${method} lists the start as explored`);
+      assert.ok(result.stats.maxFrontier >= 1, method);
+    }
+  });
+
+  it('hands findPath the exploration order for _EXPLORE methods', () => {
+    const maze = twoRoutes();
+    assert.deepEqual(findPath(0, 0, 3, 0, 'BFS_EXPLORE', maze), search(0, 0, 3, 0, 'BFS', maze).explored);
+  });
+
+  it('reports an unreachable exit as not found, at infinite cost', () => {
+    const maze = closedMaze(3, 3);
+    open(maze, 0, 0, 1, 0);
+    const result = search(0, 0, 2, 2, 'ASTAR', maze);
+    assert.equal(result.found, false);
+    assert.deepEqual(result.path, []);
+    assert.deepEqual(result.explored, [[1, 0]]);
+    assert.equal(result.stats.pathCost, Infinity);
+  });
+});
+
+describe('searchSteps', () => {
+  it('yields one snapshot per expansion and returns what search returns', () => {
+    const maze = twoRoutes();
+    for (const method of getSearchMethods()) {
+      const steps = searchSteps(0, 0, 3, 0, method, maze);
+      const snapshots = [];
+      let next = steps.next();
+      for (; !next.done; next = steps.next()) snapshots.push(next.value);
+      const expected = search(0, 0, 3, 0, method, maze);
+      assert.deepEqual(next.value.path, expected.path, method);
+      assert.deepEqual(next.value.explored, expected.explored, method);
+      assert.equal(snapshots.length, expected.stats.expanded, method);
+      snapshots.forEach((snapshot, index) => {
+        assert.equal(snapshot.expanded, index + 1);
+        assert.deepEqual(snapshot.closed.at(-1), snapshot.current);
+        if (!iterative(method)) assert.equal(snapshot.closed.length, index + 1);
+      });
+    }
+  });
+
+  it('lists the A* open set lowest f first, with g + h = f', () => {
+    for (const { frontier } of searchSteps(0, 0, 3, 0, 'ASTAR', twoRoutes())) {
+      frontier.forEach((entry, index) => {
+        assert.equal(entry.g! + entry.h!, entry.f);
+        if (index > 0) assert.ok(frontier[index - 1].f! <= entry.f!);
+      });
+    }
+  });
+});
+
+describe('cost-aware search', () => {
+  it('finds routes as cheap as a reference Dijkstra with DIJKSTRA and A*', () => {
+    for (let seed = 1; seed <= 20; seed++) {
+      const maze = randomMaze(9, 7, seed);
+      const expected = cheapestCost(maze, [0, 0], [8, 6]);
+      for (const method of ['DIJKSTRA', 'ASTAR'] as const) {
+        const result = search(0, 0, 8, 6, method, maze);
+        assert.equal(result.found, expected < Infinity, `${method} in maze ${seed}`);
+        if (!result.found) continue;
+        assertWalk(maze, [0, 0], result.path);
+        assert.equal(result.stats.pathCost, expected, `${method} in maze ${seed}`);
+        assert.equal(result.path.reduce((total, [x, y]) => total + (maze[y][x].cost ?? 1), 0), expected);
+      }
+    }
+  });
+
+  it('charges BFS for the terrain it walks through without avoiding it', () => {
+    const maze = twoRoutes();
+    maze[0][1].cost = 5;
+    const bfs = search(0, 0, 3, 0, 'BFS', maze);
+    assert.equal(bfs.path.length, 3);
+    assert.equal(bfs.stats.pathCost, 7);
+    const dijkstra = search(0, 0, 3, 0, 'DIJKSTRA', maze);
+    assert.equal(dijkstra.path.length, 5);
+    assert.equal(dijkstra.stats.pathCost, 5);
+  });
+});
+
+describe('informed and iterative-deepening searches', () => {
+  it('finds the cheapest route with IDA*, and at most weight times that with weighted A*', () => {
+    for (let seed = 1; seed <= 20; seed++) {
+      const maze = randomMaze(9, 7, seed);
+      const expected = cheapestCost(maze, [0, 0], [8, 6]);
+      if (expected === Infinity) continue;
+      assert.equal(search(0, 0, 8, 6, 'IDA_STAR', maze).stats.pathCost, expected, `maze ${seed}`);
+      for (const weight of [1, 1.5, 3]) {
+        const result = search(0, 0, 8, 6, 'WEIGHTED_ASTAR', maze, { weight });
+        assertWalk(maze, [0, 0], result.path);
+        assert.ok(result.stats.pathCost <= weight * expected, `weight ${weight} in maze ${seed}: ${result.stats.pathCost} > ${weight} * ${expected}`);
+      }
+    }
+  });
+
+  it('finds the route with the fewest moves with IDDFS, and some route with greedy best-first', () => {
+    for (let seed = 1; seed <= 20; seed++) {
+      const maze = randomMaze(9, 7, seed);
+      const bfs = search(0, 0, 8, 6, 'BFS', maze);
+      const iddfs = search(0, 0, 8, 6, 'IDDFS', maze);
+      const greedy = search(0, 0, 8, 6, 'GREEDY', maze);
+      assert.equal(iddfs.found, bfs.found);
+      assert.equal(greedy.found, bfs.found);
+      assert.equal(iddfs.path.length, bfs.path.length, `maze ${seed}`);
+      assertWalk(maze, [0, 0], iddfs.path);
+      assertWalk(maze, [0, 0], greedy.path);
+    }
+  });
+});
+
+describe('bidirectional searches', () => {
+  it('join the two waves on the route, BFS with the fewest moves and A* at the lowest cost', () => {
+    for (let seed = 1; seed <= 20; seed++) {
+      const maze = randomMaze(9, 7, seed);
+      const expected = cheapestCost(maze, [0, 0], [8, 6]);
+      const fewest = search(0, 0, 8, 6, 'BFS', maze).path.length;
+      for (const method of ['BIDIRECTIONAL_BFS', 'BIDIRECTIONAL_ASTAR'] as const) {
+        const result = search(0, 0, 8, 6, method, maze);
+        assert.equal(result.found, expected < Infinity, `${method} in maze ${seed}`);
+        assert.equal(result.exploredSides?.length, result.explored.length, method);
+        if (!result.found) continue;
+        assertWalk(maze, [0, 0], result.path);
+        assert.ok(result.meetingPoint && result.path.some(([x, y]) => x === result.meetingPoint![0] && y === result.meetingPoint![1]), `${method} met off its route`);
+        assert.ok(result.exploredSides!.includes('start') && result.exploredSides!.includes('exit'), `${method} only searched from one side`);
+      }
+      if (expected === Infinity) continue;
+      assert.equal(search(0, 0, 8, 6, 'BIDIRECTIONAL_BFS', maze).path.length, fewest, `maze ${seed}`);
+      assert.equal(search(0, 0, 8, 6, 'BIDIRECTIONAL_ASTAR', maze).stats.pathCost, expected, `maze ${seed}`);
+    }
+  });
+});
+
+describe('Jump Point Search', () => {
+  it('finds routes as cheap as A*, one cell per step', () => {
+    for (let seed = 1; seed <= 20; seed++) {
+      const maze = randomMaze(9, 7, seed);
+      const astar = search(0, 0, 8, 6, 'ASTAR', maze);
+      const jps = search(0, 0, 8, 6, 'JPS', maze);
+      assert.equal(jps.found, astar.found, `maze ${seed}`);
+      assertWalk(maze, [0, 0], jps.path);
+      assert.equal(jps.stats.pathCost, astar.stats.pathCost, `maze ${seed}`);
+    }
+  });
+
+  it('jumps along a corridor instead of expanding every cell', () => {
+    const maze = closedMaze(20, 1);
+    for (let x = 0; x < 19; x++) open(maze, x, 0, 1, 0);
+    const jps = search(0, 0, 19, 0, 'JPS', maze);
+    assert.equal(jps.path.length, 19);
+    assert.deepEqual(jps.explored, [[19, 0]]);
+    assert.equal(search(0, 0, 19, 0, 'ASTAR', maze).explored.length, 19);
+  });
+});
+
+describe('search-method registry', () => {
+  // A plugin: DFS that tries the neighbours in the opposite order to the built-in one
+  const reverseDfs: SearchAlgorithm = function* (problem) {
+    const { neighbours: neighboursOf, size, start, goal } = problem;
+    const cameFrom = new Int32Array(size).fill(-1);
+    const seen = new Uint8Array(size);
+    const stack = [start];
+    const explored: number[] = [];
+    const neighbours: number[] = [];
+    seen[start] = 1;
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      explored.push(current);
+      if (current === goal) return { cameFrom, explored, found: true, maxFrontier: size };
+      for (const next of neighboursOf(current, neighbours)) {
+        if (seen[next]) continue;
+        seen[next] = 1;
+        cameFrom[next] = current;
+        stack.push(next);
+      }
+      if (!reportProgress(problem, explored.length, stack.length)) return { cameFrom, explored, found: false, maxFrontier: size, budgetExceeded: true };
+    }
+    return { cameFrom, explored, found: false, maxFrontier: size };
+  };
+
+  it('makes a registered method and its _EXPLORE variant available everywhere', () => {
+    registerSearchMethod({
+      id: 'REVERSE_DFS',
+      label: 'Reverse DFS',
+      description: 'Depth-first search trying left, down, right, then up.',
+      properties: { complete: true, optimal: false, informed: false },
+      solver: reverseDfs,
+    });
+    assert.ok(getSearchMethods().includes('REVERSE_DFS'));
+    assert.ok(getSearchMethods().includes('REVERSE_DFS_EXPLORE'));
+    assert.equal(describeSearchMethod('REVERSE_DFS_EXPLORE')?.label, 'Reverse DFS (Explore)');
+    assert.equal(describeSearchMethod('REVERSE_DFS_EXPLORE')?.explore, true);
+
+    const maze = twoRoutes();
+    const result = search(0, 0, 3, 0, 'REVERSE_DFS', maze);
+    assertWalk(maze, [0, 0], result.path);
+    assert.equal(result.path.length, 5, 'goes down first, so it takes the long way round');
+    assert.deepEqual(findPath(0, 0, 3, 0, 'REVERSE_DFS_EXPLORE', maze), result.explored);
+  });
+
+  it('describes the built-in methods and nothing else', () => {
+    assert.deepEqual(describeSearchMethod('ASTAR')?.properties, { complete: true, optimal: true, informed: true });
+    assert.equal(describeSearchMethod('NO_SUCH_METHOD'), undefined);
+    assert.deepEqual(search(0, 0, 3, 0, 'NO_SUCH_METHOD', twoRoutes()).path, []);
+  });
+});
+
+describe('explore walks', () => {
+  it('visit every explored cell in order, one open move at a time, at the cost of the cells entered', () => {
+    const exploreMethods = getSearchMethods().filter(method => method.endsWith('_EXPLORE'));
+    for (let seed = 1; seed <= 10; seed++) {
+      const maze = randomMaze(9, 7, seed);
+      for (const method of exploreMethods) {
+        const result = search(0, 0, 8, 6, method, maze);
+        const walk = result.walk!;
+        assertWalk(maze, [0, 0], walk);
+        assert.equal(result.stats.walkCost, walk.reduce((total, [x, y]) => total + (maze[y][x].cost ?? 1), 0), `${method} in maze ${seed}`);
+        if (result.exploredSides) continue; // Bidirectional walks only cover the start wave
+        // IDDFS and IDA* list the cell they are already on when an iteration restarts at the start
+        let visited = 0;
+        const isNext = ([x, y]: [number, number]) => visited < result.explored.length && result.explored[visited][0] === x && result.explored[visited][1] === y;
+        for (const cell of [[0, 0], ...walk] as [number, number][]) while (isNext(cell)) visited++;
+        assert.equal(visited, result.explored.length, `${method} in maze ${seed} skipped an explored cell`);
+      }
+    }
+  });
+
+  it('are only reported for _EXPLORE methods', () => {
+    const result = search(0, 0, 3, 0, 'BFS', twoRoutes());
+    assert.equal(result.walk, undefined);
+    assert.equal(result.stats.walkCost, undefined);
+  });
+});
+
+describe('DStarLite', () => {
+  function assertCheapestRoute(maze: Cell[][], planner: DStarLite, message: string) {
+    const expected = cheapestCost(maze, planner.position, [8, 6]);
+    const path = planner.path();
+    assertWalk(maze, planner.position, path);
+    if (expected === Infinity) assert.deepEqual(path, [], message);
+    else assert.equal(path.reduce((total, [x, y]) => total + (maze[y][x].cost ?? 1), 0), expected, message);
+  }
+
+  it('repairs its route into a cheapest one as the agent moves and walls change', () => {
+    for (let seed = 1; seed <= 10; seed++) {
+      let maze = randomMaze(9, 7, seed);
+      const planner = new DStarLite(maze, 0, 0, 8, 6);
+      assertCheapestRoute(maze, planner, `maze ${seed}`);
+
+      const toggles = randomMaze(9, 7, seed + 100); // a second maze decides which walls flip
+      for (let round = 0; round < 4; round++) {
+        const next = planner.nextStep();
+        if (next) planner.moveTo(...next);
+        maze = maze.map(row => row.map(cell => ({ ...cell })));
+        const changed: [number, number, number, number][] = [];
+        for (let y = 0; y < 7; y++) {
+          for (let x = 0; x < 8; x++) {
+            if ((x + y + round) % 5 !== 0 || toggles[y][x].east === maze[y][x].east) continue;
+            [maze[y][x].east, maze[y][x + 1].west] = [toggles[y][x].east, toggles[y][x].east];
+            changed.push([x, y, x + 1, y]);
+          }
+        }
+        planner.setMaze(maze);
+        for (const wall of changed) planner.wallChanged(...wall);
+        assertCheapestRoute(maze, planner, `maze ${seed}, round ${round}`);
+      }
+    }
+  });
+
+  it('finds the new shortest route after a wall closes the current one', () => {
+    const maze = twoRoutes();
+    const planner = new DStarLite(maze, 0, 0, 3, 0);
+    assert.deepEqual(planner.path(), [[1, 0], [2, 0], [3, 0]]);
+    const blocked = maze.map(row => row.map(cell => ({ ...cell })));
+    [blocked[0][1].east, blocked[0][2].west] = [true, true];
+    planner.setMaze(blocked);
+    planner.wallChanged(1, 0, 2, 0);
+    assert.deepEqual(planner.path(), [[0, 1], [1, 1], [2, 1], [3, 1], [3, 0]]);
+    assert.ok(planner.expanded > 0);
+  });
+});
+
+describe('diagonal moves', () => {
+  // Checks that every step is an open orthogonal move or a diagonal one through a corner with no walls
+  function assertDiagonalWalk(maze: Cell[][], path: [number, number][]) {
+    let [x, y] = [0, 0];
+    for (const [nx, ny] of path) {
+      const [dx, dy] = [nx - x, ny - y];
+      if (dx !== 0 && dy !== 0) {
+        assert.ok(Math.abs(dx) === 1 && Math.abs(dy) === 1, `(${x}, ${y}) -> (${nx}, ${ny}) is not a single move`);
+        const horizontal = dx > 0 ? !maze[y][x].east && !maze[ny][x].east : !maze[y][x].west && !maze[ny][x].west;
+        const vertical = dy > 0 ? !maze[y][x].south && !maze[y][nx].south : !maze[y][x].north && !maze[y][nx].north;
+        assert.ok(horizontal && vertical, `(${x}, ${y}) -> (${nx}, ${ny}) cuts a corner`);
+      } else {
+        assertWalk(maze, [x, y], [[nx, ny]]);
+      }
+      [x, y] = [nx, ny];
+    }
+  }
+
+  it('finds the cheapest eight-way route with the optimal methods', () => {
+    for (let seed = 1; seed <= 10; seed++) {
+      const maze = randomMaze(9, 7, seed);
+      const expected = cheapestCost(maze, [0, 0], [8, 6], true);
+      for (const method of ['DIJKSTRA', 'ASTAR', 'BIDIRECTIONAL_ASTAR', 'IDA_STAR'] as const) {
+        const result = search(0, 0, 8, 6, method, maze, { heuristic: 'octile', diagonal: true });
+        assert.equal(result.found, Number.isFinite(expected), `${method} in maze ${seed}`);
+        if (!result.found) continue;
+        assertDiagonalWalk(maze, result.path);
+        assert.ok(Math.abs(result.stats.pathCost - expected) < 1e-9, `${method} in maze ${seed}: ${result.stats.pathCost} vs ${expected}`);
+      }
+      const jps = search(0, 0, 8, 6, 'JPS', maze, { heuristic: 'octile', diagonal: true });
+      assert.deepEqual(jps.path, search(0, 0, 8, 6, 'ASTAR', maze, { heuristic: 'octile', diagonal: true }).path, `JPS in maze ${seed}`);
+    }
+  });
+
+  it('only cuts a corner when all four walls meeting there are down', () => {
+    const maze = closedMaze(2, 2);
+    open(maze, 0, 0, 1, 0);
+    open(maze, 0, 0, 0, 1);
+    open(maze, 1, 0, 0, 1);
+    assert.equal(search(0, 0, 1, 1, 'ASTAR', maze, { heuristic: 'octile', diagonal: true }).path.length, 2);
+    open(maze, 0, 1, 1, 0);
+    const result = search(0, 0, 1, 1, 'ASTAR', maze, { heuristic: 'octile', diagonal: true });
+    assert.deepEqual(result.path, [[1, 1]]);
+    assert.equal(result.stats.pathCost, Math.SQRT2);
+  });
+});
+
+describe('search budgets', () => {
+  it('say whether the search found the exit or proved it unreachable', () => {
+    for (const method of getSearchMethods()) {
+      assert.equal(search(0, 0, 8, 6, method, open9x7()).status, 'found', method);
+      const closed = search(0, 0, 8, 6, method, closedMaze(9, 7));
+      assert.equal(closed.status, 'exhausted', method);
+      assert.deepEqual(closed.partialPath, [], method);
+    }
+  });
+
+  it('stop at the expansion limit with a route towards the exit', () => {
+    const maze = open9x7();
+    for (const method of getSearchMethods()) {
+      const result = search(0, 0, 8, 6, method, maze, { budget: { maxExpansions: 10 } });
+      assert.equal(result.status, 'budget_exceeded', method);
+      assert.equal(result.found, false, method);
+      assert.deepEqual(result.path, [], method);
+      assert.equal(result.stats.expanded, 10, method);
+      assertWalk(maze, [0, 0], result.partialPath!);
+      assert.ok(result.partialPath!.length > 0, `${method} made no progress`);
+    }
+  });
+
+  it('ends the partial route at the expanded cell closest to the exit', () => {
+    const maze = open9x7();
+    const result = search(0, 0, 8, 6, 'BFS', maze, { budget: { maxExpansions: 6 } });
+    // BFS has expanded the cells up to two moves away; (2, 0), (1, 1) and (0, 2) tie, the first wins
+    assert.deepEqual(result.partialPath, [[1, 0], [2, 0]]);
+  });
+
+  it('stop when the nodes held in memory pass the limit', () => {
+    // Each BFS expansion on an open grid holds one more cell in the closed set and at most two more in the queue
+    const result = search(0, 0, 8, 6, 'BFS', open9x7(), { budget: { maxNodes: 12 } });
+    assert.equal(result.status, 'budget_exceeded');
+    assert.ok(result.stats.expanded < 12 && result.stats.expanded + result.stats.maxFrontier > 12);
+  });
+
+  it('find the exit when it is reached on the last allowed expansion', () => {
+    const maze = twoRoutes();
+    const expanded = search(0, 0, 3, 0, 'ASTAR', maze).stats.expanded;
+    const result = search(0, 0, 3, 0, 'ASTAR', maze, { budget: { maxExpansions: expanded } });
+    assert.equal(result.status, 'found');
+    assert.equal(result.partialPath, undefined);
+  });
+});
@@ -1,570 +1,1553 @@
 /**
- * @fileOverview A generic maze-search module that supports DFS, BFS, and A* search algorithms.
+ * @fileOverview A generic maze-search module that supports uninformed (DFS, BFS, IDDFS, Dijkstra) and
+ * informed (greedy best-first, A*, weighted A*, IDA*, Jump Point Search) search algorithms, plus
+ * bidirectional BFS and A*.
  *
- * - findPath - A function that finds a path through the maze.
- * - SEARCH_METHODS - A constant array of available search method names.
- * - SearchMethod - Type that indicates the search method, derived from SEARCH_METHODS.
+ * - search - Runs a search method and returns its path, exploration order and statistics.
+ * - searchGraph - Same as search for any Graph (hex mazes, portals, loaded graphs), see graph.ts.
+ * - searchSteps - Generator variant of search that yields a SearchStep snapshot per expansion.
+ * - findPath - A function that finds a path through the maze (compatibility wrapper around search).
+ * - DStarLite - Incremental replanner that repairs the route to the exit when walls change.
+ * - registerSearchMethod - Adds an algorithm (and its `_EXPLORE` variant) to the method registry.
+ * - describeSearchMethod - Returns the label, description and properties of a method, for the UI.
+ * - SearchMethod - Type that indicates the search method: a registered id, optionally with `_EXPLORE`.
+ * - SearchMethodDescriptor - Interface for a registry entry.
+ * - SearchOptions - Interface for the optional tuning parameters of search, searchSteps and findPath.
+ * - SearchBudget - Interface for the limits a search may be given (expansions, time, nodes in memory).
+ * - SearchStatus - Type saying whether a search found the exit, ran out of graph, or ran out of budget.
+ * - DEFAULT_ASTAR_WEIGHT - Heuristic weight used by WEIGHTED_ASTAR when none is given.
  * - getSearchMethods - Function to retrieve the list of available search methods.
- * - SearchNode - Interface for nodes used in DFS, BFS, and standard A* search algorithms.
- * - AStarExploreSearchNode - Interface for nodes used specifically in the astarExplore algorithm.
+ * - SearchResult - Interface for the object returned by search and searchGraph.
+ * - SearchStats - Interface for the counters reported in SearchResult.
+ * - SearchStep - Interface for the snapshots yielded by searchSteps.
+ * - FrontierEntry - Interface for one stack/queue/open-set entry inside a SearchStep.
+ * - SearchSide - Type naming the end a bidirectional search expanded a cell from.
+ * - SearchProgress - Interface for the counters passed to SearchOptions.onProgress.
+ * - HeuristicFunction - Type of a custom heuristic passed in SearchOptions (re-exported from heuristics.ts).
  * - MazeCell - Interface representing the structure of a maze cell.
+ * - GridMaze, PackedMaze - Types of the square mazes search accepts: MazeCell[][] or the compact
+ *   Uint8Array wall bitmasks of packed-maze.ts (re-exported).
+ *
+ * Every algorithm is written against a Graph and addresses nodes by their key (the cell index
+ * `y * width + x` for square mazes). Every search keeps a `cameFrom` predecessor array instead of
+ * copying paths into its nodes, and A* uses an indexed binary heap, so all methods run in
+ * O(n log n) or better on an n-node graph. Jump Point Search only makes sense on square grids and
+ * falls back to A* on other graphs.
+ *
+ * Cells may carry a movement `cost` (the cost of entering them, 1 by default). DFS and BFS ignore it;
+ * Dijkstra, A* and IDA* minimise the total cost; the informed searches scale their heuristic (Manhattan
+ * unless SearchOptions.heuristic picks another, see heuristics.ts) by the cheapest cell in the maze so it
+ * stays admissible. IDDFS and bidirectional BFS find the path with
+ * the fewest steps; bidirectional A* finds the cheapest one.
+ *
+ * With SearchOptions.diagonal, square mazes allow eight-way moves: a diagonal step needs the four walls
+ * around its corner to be down and costs √2 times the entered cell (see graph.ts). Pair it with the
+ * octile heuristic, since Manhattan overestimates once diagonals are allowed. JPS falls back to A* then.
+ *
+ * Every method accepts a SearchOptions.budget. Algorithms check it where they report progress, after
+ * each expansion, and stop with status 'budget_exceeded' once any limit is reached. A search that does
+ * not find the exit still returns `partialPath`, the route to the expanded node the heuristic rates
+ * closest to the exit, so a time-limited agent can make progress and think again from there.
+ *
+ * Each algorithm is written once as a generator. `search` drains it with snapshots turned off,
+ * so the step-by-step API costs nothing when it is not used.
+ *
+ * Algorithms can live in separate plugin files: a plugin writes a SearchAlgorithm against the
+ * exported SearchProblem / SearchTrace types (helped by distanceToGoal, bestFirst, reportProgress,
+ * snapshot and frontierEntry), stops when reportProgress returns false, and passes it to registerSearchMethod. Importing the plugin once makes
+ * the method available to search, searchGraph, findPath and the UI.
  */
 
+import { IndexedMinHeap } from '@/lib/indexed-min-heap';
+import type { HeuristicFunction } from '@/heuristics';
+import { MazeGraph, cellCost, minCellCost, openNeighbours, type Graph } from '@/graph';
+import { gridSize, wallsAt, WALL_EAST, WALL_NORTH, WALL_SOUTH, WALL_WEST, type GridMaze, type PackedMaze } from '@/packed-maze';
+
+export type { HeuristicFunction, GridMaze, PackedMaze };
+export { cellCost, openNeighbours };
+
 /**
- * List of all available search methods. Automatically used in the UI.
+ * A registered method id ('DFS', 'ASTAR', ...), optionally followed by `_EXPLORE`.
  */
-export const SEARCH_METHODS = [
-  'DFS',
-  'DFS_EXPLORE',
-  'BFS',
-  'BFS_EXPLORE',
-  'ASTAR',
-  'ASTAR_EXPLORE'
-] as const;
+export type SearchMethod = string;
 
 /**
- * Union type for search methods, derived from SEARCH_METHODS.
+ * Guarantees a method gives on a finite maze.
  */
-export type SearchMethod = typeof SEARCH_METHODS[number];
+export interface SearchMethodProperties {
+  complete: boolean; // always finds a path when one exists
+  optimal: boolean;  // the path it returns has the lowest total cost, terrain included
+  informed: boolean; // guided by SearchOptions.heuristic
+}
 
-interface SearchNode {
-  x: number;
-  y: number;
-  path: [number, number][];
+/**
+ * A registry entry. Registering `id` also makes `${id}_EXPLORE` available.
+ */
+export interface SearchMethodDescriptor {
+  id: string;
+  label: string;       // display name, e.g. 'A*'
+  description: string; // one or two sentences for tooltips
+  properties: SearchMethodProperties;
+  solver: SearchAlgorithm;
+}
+
+/**
+ * What describeSearchMethod reports for a method name.
+ */
+export interface SearchMethodInfo extends Omit<SearchMethodDescriptor, 'solver'> {
+  method: SearchMethod;
+  explore: boolean; // true for the `_EXPLORE` variant, which findPath answers with the exploration order
+}
+
+/**
+ * The end a bidirectional search grew a wave from.
+ */
+export type SearchSide = 'start' | 'exit';
+
+/**
+ * Heuristic weight (epsilon) used by WEIGHTED_ASTAR when none is given.
+ */
+export const DEFAULT_ASTAR_WEIGHT = 1.5;
+
+/**
+ * Optional tuning parameters shared by every entry point.
+ */
+export interface SearchOptions {
+  weight?: number; // WEIGHTED_ASTAR orders by g + weight * h; its path costs at most `weight` times the optimum
+  heuristic?: string | HeuristicFunction; // informed searches on mazes only: a registered heuristic id or a custom function, Manhattan by default; a Graph brings its own
+  onProgress?: (progress: SearchProgress) => void; // called every `progressInterval` expansions
+  progressInterval?: number; // expansions between onProgress calls, DEFAULT_PROGRESS_INTERVAL by default
+  diagonal?: boolean; // mazes only: also move diagonally through open corners, at √2 times the entered cell's cost
+  budget?: SearchBudget; // limits on the search; unlimited when omitted
+}
+
+/**
+ * Limits on a search. Any omitted limit is unlimited; the search stops as soon as one is reached.
+ */
+export interface SearchBudget {
+  maxExpansions?: number; // expansions, including the start and the re-expansions of IDDFS/IDA*
+  maxMs?: number;         // wall-clock milliseconds; searchSteps counts the pauses between steps too
+  maxNodes?: number;      // nodes held at once in the closed set and frontier (the current iteration's, for IDDFS/IDA*)
+}
+
+/**
+ * How a search ended: it reached the exit, proved the exit unreachable, or hit a SearchBudget limit.
+ */
+export type SearchStatus = 'found' | 'exhausted' | 'budget_exceeded';
+
+/**
+ * Expansions between two SearchOptions.onProgress calls when no interval is given.
+ */
+export const DEFAULT_PROGRESS_INTERVAL = 1000;
+
+/**
+ * Counters passed to SearchOptions.onProgress while a search runs.
+ */
+export interface SearchProgress {
+  expanded: number; // cells expanded so far, including the start
+  frontier: number; // entries currently in the stack/queue/open set
 }
 
-// Interface for nodes used specifically in the astarExplore algorithm
-interface AStarExploreSearchNode {
+/**
+ * Counters collected while a search runs.
+ */
+export interface SearchStats {
+  expanded: number;    // cells taken off the frontier and expanded, including the start (and re-expansions by IDDFS/IDA*)
+  maxFrontier: number; // largest number of entries held in the stack/queue/open set at once
+  pathCost: number;    // sum of the movement costs of the cells in `path`, Infinity if the exit was not reached
+  elapsedMs: number;   // wall-clock time spent searching (including pauses when stepping)
+  walkCost?: number;   // `_EXPLORE` methods only: movement cost of walking `walk`, the real cost of exploring on foot
+}
+
+/**
+ * Everything a search produces; nodes are [x, y] cells for mazes. The `_EXPLORE` and plain variant of a
+ * method return the same result, except that `_EXPLORE` also reports the walk; they differ in which
+ * array `findPath` hands back.
+ */
+export interface SearchResult<Node = [number, number]> {
+  path: Node[];     // route from the start (exclusive) to the exit, [] if none was found
+  explored: Node[]; // nodes in expansion order, excluding the start; IDDFS/IDA* repeat nodes across iterations, JPS lists jump points only
+  found: boolean;
+  status: SearchStatus;
+  stats: SearchStats;
+  partialPath?: Node[];         // when not found: route from the start (exclusive) to the expanded node with the lowest heuristic estimate, [] if that is the start
+  exploredSides?: SearchSide[]; // bidirectional searches only: which wave expanded each `explored` node
+  meetingPoint?: Node;          // bidirectional searches only: the node where the two waves joined
+  walk?: Node[];                // `_EXPLORE` methods only: a route of single moves that visits the explored nodes in order
+}
+
+/**
+ * One entry of the frontier. `g`, `h` and `f` are only present for the cost-aware searches.
+ */
+export interface FrontierEntry {
   x: number;
   y: number;
-  g: number;    // cost from start to here
+  g?: number; // cost from start to here
+  h?: number; // heuristic estimate from here to the exit
+  f?: number; // the open-set priority (g + h for A*), or the f-value compared against the IDA* threshold
+  side?: SearchSide; // bidirectional searches only
 }
 
-interface MazeCell {
+/**
+ * Snapshot of a search right after it expanded `current`.
+ */
+export interface SearchStep {
+  current: [number, number];
+  frontier: FrontierEntry[];  // Stack (DFS/IDDFS/IDA*), next to pop last; BFS queue, next first; open set, lowest f first
+  closed: [number, number][]; // every cell expanded so far, including `current`
+  expanded: number;
+  closedSides?: SearchSide[]; // bidirectional searches only: which wave expanded each `closed` cell
+}
+
+export interface MazeCell {
   north: boolean;
   east: boolean;
   south: boolean;
   west: boolean;
+  cost?: number; // movement cost of entering this cell (mud, water...), 1 when omitted
+}
+
+// A search request on a graph, with the nodes replaced by their keys
+export interface SearchProblem {
+  size: number;  // number of nodes; keys are in [0, size)
+  start: number;
+  goal: number;
+  neighbours: (key: number, out: number[]) => number[]; // keys reachable in one move, written into the scratch array `out`
+  cost: (from: number, to: number) => number;           // cost of the move from -> to
+  heuristic: (key: number, target: number) => number;   // estimated cost from a node to any target node
+  position: (key: number) => [number, number];          // where the node is drawn, for SearchStep snapshots
+  maze?: GridMaze; // four-way square-cell mazes only, for grid-specific methods such as JPS
+  weight: number;      // heuristic weight for WEIGHTED_ASTAR
+  onProgress?: (progress: SearchProgress) => void;
+  progressInterval: number;
+  maxExpansions: number; // SearchBudget limits, Infinity when unlimited
+  maxNodes: number;
+  deadline: number;      // performance.now() value the search must stop by
+}
+
+// What each algorithm reports back to `search`
+export interface SearchTrace {
+  cameFrom: Int32Array;   // predecessor of each reached node, -1 for the start and unreached nodes
+  explored: number[];     // expansion order, including the start
+  found: boolean;
+  maxFrontier: number;
+  sides?: number[];       // bidirectional searches: 0 if the start wave expanded the matching `explored` node, 1 for the exit wave
+  meeting?: number;       // bidirectional searches: node where the waves joined
+  budgetExceeded?: boolean; // stopped by the budget before finding the exit; `cameFrom` must still lead back to the start from the explored nodes
 }
 
 /**
- * Returns the list of methods for dynamic UI generation.
+ * Signature shared by the algorithm generators; they only yield when `observe` is true.
+ */
+export type SearchAlgorithm = (problem: SearchProblem, observe: boolean) => Generator<SearchStep, SearchTrace>;
+
+const EXPLORE_SUFFIX = '_EXPLORE';
+
+const registry = new Map<string, SearchMethodDescriptor>();
+
+/**
+ * Adds a search method to the registry, replacing any entry with the same id.
+ * @param descriptor The method's id, labels, properties and solver. The id must not end in `_EXPLORE`.
+ */
+export function registerSearchMethod(descriptor: SearchMethodDescriptor): void {
+  registry.set(descriptor.id, descriptor);
+}
+
+/**
+ * Returns the list of methods for dynamic UI generation: each registered id followed by its
+ * `_EXPLORE` variant, in registration order.
  * @returns Array of SearchMethod names.
  */
 export function getSearchMethods(): SearchMethod[] {
-  return SEARCH_METHODS as unknown as SearchMethod[];
+  return Array.from(registry.keys()).flatMap(id => [id, id + EXPLORE_SUFFIX]);
+}
+
+/**
+ * Looks up the metadata of a method name.
+ * @param method A registered id, optionally with `_EXPLORE`.
+ * @returns       The method's metadata, with ' (Explore)' appended to the label of explore variants,
+ *                or undefined if the method is not registered.
+ */
+export function describeSearchMethod(method: SearchMethod): SearchMethodInfo | undefined {
+  const explore = method.endsWith(EXPLORE_SUFFIX);
+  const descriptor = registry.get(explore ? method.slice(0, -EXPLORE_SUFFIX.length) : method);
+  if (!descriptor) return undefined;
+  const { id, label, description, properties } = descriptor;
+  return { id, method, explore, label: explore ? `${label} (Explore)` : label, description, properties };
 }
 
 
 /**
- * Finds a path through the maze using the specified algorithm.
+ * Runs the specified algorithm and reports both its exploration order and the route it found.
  * @param startX Starting column index.
  * @param startY Starting row index.
  * @param endX   Exit column index.
  * @param endY   Exit row index.
  * @param method Which algorithm to use ('DFS', 'BFS', 'ASTAR', etc.).
- * @param maze   2D array of MazeCell describing walls.
- * @returns       Array of [x,y] coordinates *after* the start, or [] if no path exists.
+ * @param maze   2D array of MazeCell or a PackedMaze describing walls.
+ * @param options Optional tuning parameters, such as the weighted A* weight.
+ * @returns       SearchResult; `path` and `explored` both exclude the start.
  */
-export function findPath(
+export function search(
   startX: number,
   startY: number,
   endX: number,
   endY: number,
   method: SearchMethod,
-  maze: MazeCell[][]
-): [number, number][] {
-  if (!maze || maze.length === 0 || !maze[0]) return [];
-  switch (method) {
-    case 'DFS':
-      return dfs(startX, startY, endX, endY, maze);
-    case 'BFS':
-      return bfs(startX, startY, endX, endY, maze);
-    case 'ASTAR':
-      return astar(startX, startY, endX, endY, maze);
-    case 'DFS_EXPLORE':
-      return dfsExplore(startX, startY, endX, endY, maze);
-    case 'BFS_EXPLORE':
-      return bfsExplore(startX, startY, endX, endY, maze);
-    case 'ASTAR_EXPLORE':
-      const aStarResult = astarExplore(startX, startY, endX, endY, maze);
-      return aStarResult.explored; // Return the sequence of explored cells
-    default:
-      return [];
-  }
-}
-
-/**
- * Implements the Depth-First Search algorithm to find a path through the maze.
+  maze: GridMaze,
+  options: SearchOptions = {}
+): SearchResult {
+  if (!maze || gridSize(maze)[0] === 0) return emptyResult();
+  return searchGraph(new MazeGraph(maze, options.heuristic, options.diagonal), [startX, startY], [endX, endY], method, options);
+}
+
+/**
+ * Runs the specified algorithm on any graph.
+ * @param graph   The graph to search, e.g. a MazeGraph or one built with graphFromEdges.
+ * @param start   Start node.
+ * @param goal    Exit node.
+ * @param method  Which algorithm to use ('DFS', 'BFS', 'ASTAR', etc.).
+ * @param options Optional tuning parameters; `heuristic` is ignored, the graph provides its own.
+ * @returns        SearchResult over the graph's nodes; `path` and `explored` both exclude the start.
+ */
+export function searchGraph<Node>(
+  graph: Graph<Node>,
+  start: Node,
+  goal: Node,
+  method: SearchMethod,
+  options: SearchOptions = {}
+): SearchResult<Node> {
+  const startedAt = performance.now();
+  const problem = createProblem(graph, start, goal, options);
+  const steps = algorithmFor(method)(problem, false);
+  let next = steps.next();
+  while (!next.done) next = steps.next();
+  return toResult(graph, problem, next.value, startedAt, method.endsWith(EXPLORE_SUFFIX));
+}
+
+/**
+ * Runs the specified algorithm one expansion at a time, for visualisation.
+ * Each `next()` call performs exactly one expansion and yields its snapshot; the generator's
+ * return value is the same SearchResult that `search` would produce.
  * @param startX Starting column index.
  * @param startY Starting row index.
  * @param endX   Exit column index.
  * @param endY   Exit row index.
- * @param maze   2D array of MazeCell describing walls.
- * @returns       Array of [x,y] coordinates *after* the start, or [] if no path exists.
+ * @param method Which algorithm to use ('DFS', 'BFS', 'ASTAR', etc.).
+ * @param maze   2D array of MazeCell or a PackedMaze describing walls.
+ * @param options Optional tuning parameters, such as the weighted A* weight.
+ * @returns       Generator of SearchStep snapshots, returning the final SearchResult.
  */
-function dfs(
+export function* searchSteps(
   startX: number,
   startY: number,
   endX: number,
   endY: number,
-  maze: MazeCell[][]
-): [number, number][] {
-  const stack: SearchNode[] = [{ x: startX, y: startY, path: [[startX, startY]] }];
-  const visited = new Set<string>();
-  const MAZE_WIDTH = maze[0].length;
-  const MAZE_HEIGHT = maze.length;
-
-  while (stack.length > 0) {
-    const node = stack.pop()!;
-    const { x, y, path } = node;
-    const key = `${x},${y}`;
-
-    if (visited.has(key)) continue;
-    visited.add(key);
-
-    if (x === endX && y === endY) {
-      return path.slice(1); // Exclude the starting cell
-    }
-
-    // Explore neighbors in the order: Up, Right, Down, Left
-    const directions: { dx: number; dy: number; wall: (cell: MazeCell) => boolean }[] = [
-      { dx: 0, dy: -1, wall: cell => cell.north }, // Up
-      { dx: 1, dy: 0, wall: cell => cell.east },  // Right
-      { dx: 0, dy: 1, wall: cell => cell.south }, // Down
-      { dx: -1, dy: 0, wall: cell => cell.west }  // Left
-    ];
-
-    // Push neighbors onto the stack in reverse order
-    for (let i = directions.length - 1; i >= 0; i--) {
-      const { dx, dy, wall } = directions[i];
-      const nx = x + dx;
-      const ny = y + dy;
-
-      if (nx >= 0 && nx < MAZE_WIDTH && ny >= 0 && ny < MAZE_HEIGHT && !wall(maze[y][x])) {
-        if (!visited.has(`${nx},${ny}`)) { // Ensure not to push already processed or to be processed from stack
-            stack.push({ x: nx, y: ny, path: [...path, [nx, ny]] });
-        }
-      }
-    }
-  }
-
-  return []; // No path found
+  method: SearchMethod,
+  maze: GridMaze,
+  options: SearchOptions = {}
+): Generator<SearchStep, SearchResult> {
+  const startedAt = performance.now();
+  if (!maze || gridSize(maze)[0] === 0) return emptyResult();
+
+  const graph = new MazeGraph(maze, options.heuristic, options.diagonal);
+  const problem = createProblem(graph, [startX, startY], [endX, endY], options);
+  const trace = yield* algorithmFor(method)(problem, true);
+  return toResult(graph, problem, trace, startedAt, method.endsWith(EXPLORE_SUFFIX));
 }
 
 /**
- * Implements the Breadth-First Search algorithm to find a path through the maze.
+ * Finds a path through the maze using the specified algorithm.
  * @param startX Starting column index.
  * @param startY Starting row index.
  * @param endX   Exit column index.
  * @param endY   Exit row index.
- * @param maze   2D array of MazeCell describing walls.
- * @returns       Array of [x,y] coordinates *after* the start, or [] if no path exists.
+ * @param method Which algorithm to use ('DFS', 'BFS', 'ASTAR', etc.).
+ * @param maze   2D array of MazeCell or a PackedMaze describing walls.
+ * @param options Optional tuning parameters, such as the weighted A* weight.
+ * @returns       For `_EXPLORE` methods, the cells in the order they were explored;
+ *                otherwise the array of [x,y] coordinates *after* the start, or [] if no path exists.
  */
-function bfs(
+export function findPath(
   startX: number,
   startY: number,
   endX: number,
   endY: number,
-  maze: MazeCell[][]
+  method: SearchMethod,
+  maze: GridMaze,
+  options: SearchOptions = {}
 ): [number, number][] {
-  const queue: SearchNode[] = [{ x: startX, y: startY, path: [[startX, startY]] }];
-  const visited = new Set<string>();
-  visited.add(`${startX},${startY}`); // Add start to visited immediately
-  const MAZE_WIDTH = maze[0].length;
-  const MAZE_HEIGHT = maze.length;
-
-  while (queue.length > 0) {
-    const node = queue.shift()!;
-    const { x, y, path } = node;
-    
-    if (x === endX && y === endY) {
-      return path.slice(1); // Exclude the starting cell
-    }
-
-    // Explore neighbors in the order: Up, Right, Down, Left
-    const directions: { dx: number; dy: number; wall: (cell: MazeCell) => boolean }[] = [
-      { dx: 0, dy: -1, wall: cell => cell.north }, // Up
-      { dx: 1, dy: 0, wall: cell => cell.east },  // Right
-      { dx: 0, dy: 1, wall: cell => cell.south }, // Down
-      { dx: -1, dy: 0, wall: cell => cell.west }   // Left
-    ];
-
-    for (const { dx, dy, wall } of directions) {
-      const nx = x + dx;
-      const ny = y + dy;
-      const neighborKey = `${nx},${ny}`;
-
-      if (nx >= 0 && nx < MAZE_WIDTH && ny >= 0 && ny < MAZE_HEIGHT && !wall(maze[y][x]) && !visited.has(neighborKey)) {
-        visited.add(neighborKey);
-        queue.push({ x: nx, y: ny, path: [...path, [nx, ny]] });
-      }
-    }
-  }
+  const result = search(startX, startY, endX, endY, method, maze, options);
+  return method.endsWith(EXPLORE_SUFFIX) ? result.explored : result.path;
+}
 
-  return []; // No path found
+/**
+ * Picks the algorithm behind a method. The `_EXPLORE` variants share their base algorithm.
+ */
+function algorithmFor(method: SearchMethod): SearchAlgorithm {
+  const id = method.endsWith(EXPLORE_SUFFIX) ? method.slice(0, -EXPLORE_SUFFIX.length) : method;
+  return registry.get(id)?.solver ?? unknownMethod;
 }
 
 /**
- * Implements the Depth-First Search exploration order for the maze.
- * @param startX Starting column index.
- * @param startY Starting row index.
- * @param endX   Exit column index.
- * @param endY   Exit row index.
- * @param maze   2D array of MazeCell describing walls.
- * @returns       Array of [x,y] coordinates in the order they were explored, excluding the start.
- */
-function dfsExplore(
- startX: number,
- startY: number,
- endX: number,
- endY: number,
- maze: MazeCell[][]
-): [number, number][] {
-  const stack: { x: number; y: number }[] = [{ x: startX, y: startY }]; // path not needed for pure exploration
-  const visited = new Set<string>();
-  const explored: [number, number][] = [];
-  const WIDTH = maze[0].length;
-  const HEIGHT = maze.length;
+ * Turns a graph search into a SearchProblem over node keys. Mazes use their index-based methods.
+ */
+function createProblem<Node>(graph: Graph<Node>, start: Node, goal: Node, options: SearchOptions): SearchProblem {
+  const { maxExpansions = Infinity, maxMs = Infinity, maxNodes = Infinity } = options.budget ?? {};
+  const common = {
+    size: graph.size,
+    start: graph.key(start),
+    goal: graph.key(goal),
+    weight: options.weight ?? DEFAULT_ASTAR_WEIGHT,
+    onProgress: options.onProgress,
+    progressInterval: Math.max(1, options.progressInterval ?? DEFAULT_PROGRESS_INTERVAL),
+    maxExpansions,
+    maxNodes,
+    deadline: performance.now() + maxMs,
+  };
+  if (graph instanceof MazeGraph) {
+    const mazeGraph: MazeGraph = graph;
+    return {
+      ...common,
+      neighbours: (key, out) => mazeGraph.neighbourIndices(key, out),
+      cost: (from, to) => mazeGraph.indexCost(from, to),
+      heuristic: (key, target) => mazeGraph.indexHeuristic(key, target),
+      position: key => mazeGraph.node(key),
+      maze: mazeGraph.diagonal ? undefined : mazeGraph.maze, // JPS's jump rules assume four-way moves
+    };
+  }
+  return {
+    ...common,
+    neighbours: (key, out) => {
+      out.length = 0;
+      for (const next of graph.neighbours(graph.node(key))) out.push(graph.key(next));
+      return out;
+    },
+    cost: (from, to) => graph.cost(graph.node(from), graph.node(to)),
+    heuristic: (key, target) => graph.heuristic(graph.node(key), graph.node(target)),
+    position: key => graph.position?.(graph.node(key)) ?? [key, 0],
+  };
+}
 
-  while (stack.length > 0) {
-    const { x, y } = stack.pop()!;
-    const key = `${x},${y}`;
-    if (visited.has(key)) continue;
-    visited.add(key);
-    explored.push([x, y]);
-
-    if (x === endX && y === endY) {
-        // For _EXPLORE methods, we return all explored cells up to the point the exit is found.
-        // The slice(1) removes the start node from the returned list.
-        return explored.slice(1); 
-    }
-
-    const DIRECTIONS: { dx: number; dy: number; wall: (cell: MazeCell) => boolean }[] = [
-      { dx: 0, dy: -1, wall: cell => cell.north }, // Up
-      { dx: 1, dy: 0, wall: cell => cell.east },  // Right
-      { dx: 0, dy: 1, wall: cell => cell.south }, // Down
-      { dx: -1, dy: 0, wall: cell => cell.west }  // Left
-    ];
-
-    // Push neighbors in reverse order for correct DFS exploration sequence (Up, Right, Down, Left)
-    for (let i = DIRECTIONS.length - 1; i >= 0; i--) {
-      const { dx, dy, wall } = DIRECTIONS[i];
-      const nx = x + dx;
-      const ny = y + dy;
-      if (
-        nx >= 0 && nx < WIDTH && ny >= 0 && ny < HEIGHT &&
-        !wall(maze[y][x]) && !visited.has(`${nx},${ny}`)
-      ) {
-        stack.push({ x: nx, y: ny }); 
-      }
+function emptyResult(): SearchResult {
+  return { path: [], explored: [], found: false, status: 'exhausted', stats: { expanded: 0, maxFrontier: 0, pathCost: Infinity, elapsedMs: 0 }, partialPath: [] };
+}
+
+/**
+ * Turns an algorithm's trace into the public SearchResult.
+ */
+function toResult<Node>(graph: Graph<Node>, problem: SearchProblem, trace: SearchTrace, startedAt: number, explore: boolean): SearchResult<Node> {
+  const route = trace.found ? reconstructPath(trace.cameFrom, problem.goal) : [];
+  const toNodes = (keys: number[]) => keys.map(key => graph.node(key));
+  const result: SearchResult<Node> = {
+    path: toNodes(route),
+    explored: toNodes(trace.explored.slice(1)), // The start is always expanded first
+    found: trace.found,
+    status: trace.found ? 'found' : trace.budgetExceeded ? 'budget_exceeded' : 'exhausted',
+    stats: {
+      expanded: trace.explored.length,
+      maxFrontier: trace.maxFrontier,
+      pathCost: trace.found ? routeCost(problem, route) : Infinity,
+      elapsedMs: performance.now() - startedAt,
+    },
+  };
+  if (!trace.found) {
+    // Only nodes the predecessor array leads back from; bidirectional searches keep the start wave's
+    const reached = trace.explored.filter((key, i) => (key === problem.start || trace.cameFrom[key] !== -1) && (!trace.sides || trace.sides[i] === 0));
+    result.partialPath = reached.length > 0 ? toNodes(reconstructPath(trace.cameFrom, closestToGoal(problem, reached))) : [];
+  }
+  if (trace.sides) result.exploredSides = toSides(trace.sides.slice(1));
+  if (trace.meeting !== undefined && trace.meeting !== -1) result.meetingPoint = graph.node(trace.meeting);
+  if (explore) {
+    let targets = trace.explored.slice(1);
+    if (trace.sides) {
+      // One body cannot grow both waves: walk the start wave, then the exit wave's half of the route
+      const meetIndex = route.indexOf(trace.meeting ?? -1);
+      targets = targets.filter((_, i) => trace.sides![i + 1] === 0).concat(route.slice(meetIndex + 1));
     }
+    const walk = walkThrough(problem, targets);
+    result.walk = toNodes(walk);
+    result.stats.walkCost = routeCost(problem, walk);
   }
+  return result;
+}
 
-  return explored.slice(1); // Return all explored if exit not found
+/**
+ * Sums the move costs along a route that leaves from the problem's start.
+ */
+function routeCost({ start, cost }: SearchProblem, route: number[]): number {
+  let total = 0;
+  let previous = start;
+  for (const key of route) {
+    total += cost(previous, key);
+    previous = key;
+  }
+  return total;
 }
 
 /**
- * Implements the Breadth-First Search exploration order for the maze.
- * @param startX Starting column index.
- * @param startY Starting row index.
- * @param endX   Exit column index.
- * @param endY   Exit row index.
- * @param maze   2D array of MazeCell describing walls.
- * @returns       Array of [x,y] coordinates in the order they were explored, excluding the start.
- */
-function bfsExplore(
- startX: number,
- startY: number,
- endX: number,
- endY: number,
- maze: MazeCell[][]
-): [number, number][] {
-  const queue: { x: number; y: number }[] = [{ x: startX, y: startY }]; // path not needed for pure exploration
-  const visited = new Set<string>();
-  visited.add(`${startX},${startY}`);
-  const explored: [number, number][] = [];
-  const WIDTH = maze[0].length;
-  const HEIGHT = maze.length;
-
-  while (queue.length > 0) {
-    const { x, y } = queue.shift()!;
-    explored.push([x, y]);
-
-    if (x === endX && y === endY) {
-      return explored.slice(1);
-    }
-
-    const DIRECTIONS: { dx: number; dy: number; wall: (cell: MazeCell) => boolean }[] = [
-      { dx: 0, dy: -1, wall: cell => cell.north }, { dx: 1, dy: 0, wall: cell => cell.east }, { dx: 0, dy: 1, wall: cell => cell.south }, { dx: -1, dy: 0, wall: cell => cell.west }
-    ];
-    for (const { dx, dy, wall } of DIRECTIONS) {
-      const nx = x + dx;
-      const ny = y + dy;
-      const neighborKey = `${nx},${ny}`;
-      if (
-        nx >= 0 && nx < WIDTH && ny >= 0 && ny < HEIGHT &&
-        !wall(maze[y][x]) && !visited.has(neighborKey)
-      ) {
-        visited.add(neighborKey);
-        queue.push({ x: nx, y: ny });
+ * Turns a sequence of nodes into a route an agent can actually walk, one move at a time.
+ * The agent remembers the nodes it has visited as a tree, each attached to its shallowest visited
+ * neighbour, and moves between targets by backtracking up that tree to the common ancestor and down
+ * again. A target next to no visited node (a JPS jump point) is reached by the shortest route instead.
+ * Backtracking follows moves in reverse, so this assumes every move can be undone.
+ * @param problem Graph and start.
+ * @param targets Node keys to visit in order; the start is implicit.
+ * @returns        The walked nodes, excluding the start.
+ */
+function walkThrough(problem: SearchProblem, targets: number[]): number[] {
+  const { neighbours: neighboursOf, size, start } = problem;
+  const parent = new Int32Array(size).fill(-1);
+  const depth = new Int32Array(size).fill(-1); // -1 until the agent has been there
+  const neighbours: number[] = [];
+  const route: number[] = [];
+  const up: number[] = [];
+  const down: number[] = [];
+  depth[start] = 0;
+  let position = start;
+
+  for (const target of targets) {
+    if (target === position) continue;
+    if (depth[target] === -1) {
+      let attachTo = -1;
+      for (const next of neighboursOf(target, neighbours)) {
+        if (depth[next] !== -1 && (attachTo === -1 || depth[next] < depth[attachTo])) attachTo = next;
       }
+      if (attachTo === -1) {
+        const leg = shortestRoute(problem, position, target);
+        for (const cell of leg) {
+          if (depth[cell] === -1) {
+            parent[cell] = position;
+            depth[cell] = depth[position] + 1;
+          }
+          route.push(cell);
+          position = cell;
+        }
+        continue;
+      }
+      parent[target] = attachTo;
+      depth[target] = depth[attachTo] + 1;
+    }
+
+    // Climb from both ends until they meet at the common ancestor
+    up.length = 0;
+    down.length = 0;
+    let a = position;
+    let b = target;
+    while (depth[a] > depth[b]) up.push(a = parent[a]);
+    while (depth[b] > depth[a]) {
+      down.push(b);
+      b = parent[b];
+    }
+    while (a !== b) {
+      up.push(a = parent[a]);
+      down.push(b);
+      b = parent[b];
     }
+    route.push(...up);
+    for (let i = down.length - 1; i >= 0; i--) route.push(down[i]);
+    position = target;
   }
+  return route;
+}
 
- return explored.slice(1); // Return all explored if exit not found
+/**
+ * Breadth-first route between two nodes over the whole graph.
+ * @returns The nodes after `from` up to and including `to`, or [] if `to` is unreachable.
+ */
+function shortestRoute({ neighbours: neighboursOf, size }: SearchProblem, from: number, to: number): number[] {
+  const cameFrom = new Int32Array(size).fill(-1);
+  const queue = new Int32Array(size);
+  const neighbours: number[] = [];
+  let head = 0;
+  let tail = 0;
+  queue[tail++] = from;
+  cameFrom[from] = from;
+  while (head < tail && cameFrom[to] === -1) {
+    const current = queue[head++];
+    for (const next of neighboursOf(current, neighbours)) {
+      if (cameFrom[next] !== -1) continue;
+      cameFrom[next] = current;
+      queue[tail++] = next;
+    }
+  }
+  if (cameFrom[to] === -1) return [];
+  const route: number[] = [];
+  for (let cell = to; cell !== from; cell = cameFrom[cell]) route.push(cell);
+  return route.reverse();
 }
 
 /**
- * Heuristic function for A* algorithm: Manhattan distance to the exit.
- * @param x Current column index.
- * @param y Current row index.
- * @param endX Exit column index.
- * @param endY Exit row index.
- * @returns Manhattan distance to the exit.
+ * Returns the candidate the heuristic rates closest to the exit; the earliest one on ties.
+ * @param candidates Node keys, at least one.
  */
-function heuristic(x: number, y: number, endX: number, endY: number): number {
-  return Math.abs(x - endX) + Math.abs(y - endY);
+function closestToGoal({ heuristic, goal }: SearchProblem, candidates: number[]): number {
+  let best = candidates[0];
+  let bestEstimate = heuristic(best, goal);
+  for (const key of candidates) {
+    const estimate = heuristic(key, goal);
+    if (estimate < bestEstimate) {
+      best = key;
+      bestEstimate = estimate;
+    }
+  }
+  return best;
 }
 
 /**
- * Implements the A* search algorithm to find a path through the maze.
- * @param startX Starting column index.
- * @param startY Starting row index.
- * @param endX   Exit column index.
- * @param endY   Exit row index.
- * @param maze   2D array of MazeCell describing walls.
- * @returns       Array of [x,y] coordinates *after* the start, or [] if no path exists.
+ * Walks the predecessor array back from `goal` and returns the route in travel order.
+ * @param cameFrom Predecessor key of each reached node, -1 for the start.
+ * @param goal     Key of the last node of the route.
+ * @returns         Node keys *after* the start.
  */
-function astar(
-  startX: number,
-  startY: number,
-  endX: number,
-  endY: number,
-  maze: MazeCell[][]
-): [number, number][] {
-  const MAZE_WIDTH = maze[0].length;
-  const MAZE_HEIGHT = maze.length;
+function reconstructPath(cameFrom: Int32Array, goal: number): number[] {
+  const path: number[] = [];
+  for (let key = goal; cameFrom[key] !== -1; key = cameFrom[key]) path.push(key);
+  return path.reverse();
+}
 
-  // Note: A* uses SearchNode {x, y, path} and calculates g from path.length
-  const openSet: SearchNode[] = [{ x: startX, y: startY, path: [[startX, startY]] }];
-  const closedSet = new Set<string>(); // Stores "x,y" for visited nodes in the closed set
+/**
+ * Converts the 0/1 side markers of a bidirectional trace into SearchSide names.
+ */
+function toSides(sides: number[]): SearchSide[] {
+  return sides.map(side => (side === 0 ? 'start' : 'exit'));
+}
 
-  // gScore stores the cost from start to a node
-  const gScore = new Map<string, number>();
-  gScore.set(`${startX},${startY}`, 0);
+/**
+ * Calls the problem's onProgress callback once every `progressInterval` expansions and checks the
+ * budget. Algorithms call it after each expansion and, unless that expansion reached the exit, stop
+ * with `budgetExceeded` when it returns false.
+ * @param expanded Expansions so far, including the start.
+ * @param frontier Current size of the stack/queue/open set.
+ * @param stored   Nodes held in memory; the closed set plus the frontier by default.
+ * @returns         False once a SearchBudget limit has been reached.
+ */
+export function reportProgress(problem: SearchProblem, expanded: number, frontier: number, stored = expanded + frontier): boolean {
+  const { onProgress, progressInterval, maxExpansions, maxNodes, deadline } = problem;
+  if (onProgress && expanded % progressInterval === 0) onProgress({ expanded, frontier });
+  return expanded < maxExpansions && stored <= maxNodes && (deadline === Infinity || performance.now() < deadline);
+}
 
-  // fScore = gScore + heuristic
-  const fScore = (node: SearchNode) => (gScore.get(`${node.x},${node.y}`) ?? Infinity) + heuristic(node.x, node.y, endX, endY);
+/**
+ * Builds a SearchStep. Frontier entries are produced by the caller, already in display order.
+ * @param expanded    Total expansions so far, when it differs from the closed set (iterative searches).
+ * @param closedSides Bidirectional searches: 0/1 side marker of each closed node.
+ */
+export function snapshot({ position }: SearchProblem, current: number, frontier: FrontierEntry[], closed: number[], expanded = closed.length, closedSides?: number[]): SearchStep {
+  const step: SearchStep = {
+    current: position(current),
+    frontier,
+    closed: closed.map(position),
+    expanded,
+  };
+  if (closedSides) step.closedSides = toSides(closedSides);
+  return step;
+}
 
-  while (openSet.length > 0) {
-    // Sort openSet by fScore to get the node with the lowest fScore
-    openSet.sort((a, b) => fScore(a) - fScore(b));
-    const current = openSet.shift()!; // Node with the lowest fScore
+/**
+ * Builds the FrontierEntry of a node for a SearchStep.
+ * @param fields g, h, f and side, for the searches that track them.
+ */
+export function frontierEntry({ position }: SearchProblem, key: number, fields: Omit<FrontierEntry, 'x' | 'y'> = {}): FrontierEntry {
+  const [x, y] = position(key);
+  return { x, y, ...fields };
+}
 
-    const { x, y, path } = current;
-    const key = `${x},${y}`;
+/**
+ * Fallback for methods without an algorithm: reports that nothing was found.
+ */
+function* unknownMethod(): Generator<SearchStep, SearchTrace> {
+  return { cameFrom: new Int32Array(0), explored: [], found: false, maxFrontier: 0 };
+}
+
+/**
+ * Implements the Depth-First Search algorithm. Neighbours are explored in the graph's order
+ * (Up, Right, Down, Left on a square maze).
+ * @param problem Graph, start and exit.
+ * @param observe Whether to yield a SearchStep after each expansion.
+ * @returns        The search trace; the path follows the DFS tree, so it is usually not the shortest.
+ */
+function* dfs(problem: SearchProblem, observe: boolean): Generator<SearchStep, SearchTrace> {
+  const { neighbours: neighboursOf, size, start, goal } = problem;
+  const visited = new Uint8Array(size);
+  const cameFrom = new Int32Array(size).fill(-1);
+  // The stack holds [node, parent] pairs; a node's parent is fixed when it is popped.
+  const stack: number[] = [start, -1];
+  const explored: number[] = [];
+  const neighbours: number[] = [];
+  let maxFrontier = 1;
 
-    if (x === endX && y === endY) {
-      return path.slice(1); // Exclude the starting cell
+  while (stack.length > 0) {
+    const parent = stack.pop()!;
+    const current = stack.pop()!;
+    if (visited[current]) continue;
+    visited[current] = 1;
+    cameFrom[current] = parent;
+    explored.push(current);
+
+    if (current !== goal) {
+      // Push neighbors onto the stack in reverse order so the first one is explored first
+      neighboursOf(current, neighbours);
+      for (let i = neighbours.length - 1; i >= 0; i--) {
+        if (!visited[neighbours[i]]) stack.push(neighbours[i], current);
+      }
+      maxFrontier = Math.max(maxFrontier, stack.length / 2);
     }
+    const withinBudget = reportProgress(problem, explored.length, stack.length / 2);
 
-    closedSet.add(key); // Move current to closed set
+    if (observe) {
+      const frontier: FrontierEntry[] = [];
+      for (let i = 0; i < stack.length; i += 2) frontier.push(frontierEntry(problem, stack[i]));
+      yield snapshot(problem, current, frontier, explored);
+    }
 
-    // Explore neighbors
-    const directions: { dx: number; dy: number; wall: (cell: MazeCell) => boolean }[] = [
-      { dx: 0, dy: -1, wall: cell => cell.north }, // Up
-      { dx: 1, dy: 0, wall: cell => cell.east },  // Right
-      { dx: 0, dy: 1, wall: cell => cell.south }, // Down
-      { dx: -1, dy: 0, wall: cell => cell.west }   // Left
-    ];
+    if (current === goal) {
+      return { cameFrom, explored, found: true, maxFrontier };
+    }
+    if (!withinBudget) return { cameFrom, explored, found: false, maxFrontier, budgetExceeded: true };
+  }
 
-    for (const { dx, dy, wall } of directions) {
-      const nx = x + dx;
-      const ny = y + dy;
-      const neighborKey = `${nx},${ny}`;
+  return { cameFrom, explored, found: false, maxFrontier }; // No path found
+}
 
-      if (nx >= 0 && nx < MAZE_WIDTH && ny >= 0 && ny < MAZE_HEIGHT && !wall(maze[y][x])) {
-        if (closedSet.has(neighborKey)) {
-          continue; // Ignore neighbor if it's already evaluated
+/**
+ * Implements the Breadth-First Search algorithm. The path it finds has the fewest steps.
+ * @param problem Maze, start and exit.
+ * @param observe Whether to yield a SearchStep after each expansion.
+ * @returns        The search trace.
+ */
+function* bfs(problem: SearchProblem, observe: boolean): Generator<SearchStep, SearchTrace> {
+  const { neighbours: neighboursOf, size, start, goal } = problem;
+  const visited = new Uint8Array(size);
+  const cameFrom = new Int32Array(size).fill(-1);
+  // Every node is enqueued at most once, so a fixed array with a head pointer replaces shift()
+  const queue = new Int32Array(size);
+  let head = 0;
+  let tail = 0;
+  const explored: number[] = [];
+  const neighbours: number[] = [];
+  let maxFrontier = 1;
+
+  queue[tail++] = start;
+  visited[start] = 1; // Add start to visited immediately
+
+  while (head < tail) {
+    const current = queue[head++];
+    explored.push(current);
+
+    if (current !== goal) {
+      for (const next of neighboursOf(current, neighbours)) {
+        if (!visited[next]) {
+          visited[next] = 1;
+          cameFrom[next] = current;
+          queue[tail++] = next;
         }
+      }
+      maxFrontier = Math.max(maxFrontier, tail - head);
+    }
+    const withinBudget = reportProgress(problem, explored.length, tail - head);
 
-        const tentativeGScore = (gScore.get(key) ?? Infinity) + 1; // Distance from start to current + 1
+    if (observe) {
+      const frontier = Array.from(queue.subarray(head, tail), key => frontierEntry(problem, key));
+      yield snapshot(problem, current, frontier, explored);
+    }
+
+    if (current === goal) {
+      return { cameFrom, explored, found: true, maxFrontier };
+    }
+    if (!withinBudget) return { cameFrom, explored, found: false, maxFrontier, budgetExceeded: true };
+  }
+
+  return { cameFrom, explored, found: false, maxFrontier }; // No path found
+}
+
+/**
+ * Implements Dijkstra's algorithm (uniform-cost search). The path it finds has the lowest total cost.
+ * @param problem Maze, start and exit.
+ * @param observe Whether to yield a SearchStep after each expansion.
+ * @returns        The search trace.
+ */
+function dijkstra(problem: SearchProblem, observe: boolean): Generator<SearchStep, SearchTrace> {
+  return bestFirst(problem, observe, () => 0);
+}
+
+/**
+ * Returns the problem's heuristic toward a target node as a function of a node key.
+ * @param problem Graph and its heuristic.
+ * @param target  Node key to estimate the cost to; the exit by default.
+ */
+export function distanceToGoal({ goal, heuristic }: SearchProblem, target = goal): (key: number) => number {
+  return key => heuristic(key, target);
+}
+
+/**
+ * Implements the A* search algorithm. The path it finds is optimal when the heuristic is admissible.
+ * @param problem Maze, start and exit.
+ * @param observe Whether to yield a SearchStep after each expansion.
+ * @returns        The search trace.
+ */
+function astar(problem: SearchProblem, observe: boolean): Generator<SearchStep, SearchTrace> {
+  return bestFirst(problem, observe, distanceToGoal(problem));
+}
+
+/**
+ * Implements greedy best-first search: always expands the cell that looks closest to the exit.
+ * Usually expands few cells, but the path it finds is not guaranteed to be the shortest.
+ * @param problem Maze, start and exit.
+ * @param observe Whether to yield a SearchStep after each expansion.
+ * @returns        The search trace.
+ */
+function greedy(problem: SearchProblem, observe: boolean): Generator<SearchStep, SearchTrace> {
+  return bestFirst(problem, observe, distanceToGoal(problem), (g, h) => h);
+}
 
-        let neighborInOpenSet = openSet.find(node => node.x === nx && node.y === ny);
+/**
+ * Implements weighted A*, ordering by g + weight * h. With weight >= 1 the path costs at most
+ * `weight` times the optimum, usually for far fewer expansions.
+ * @param problem Maze, start, exit and weight.
+ * @param observe Whether to yield a SearchStep after each expansion.
+ * @returns        The search trace.
+ */
+function weightedAstar(problem: SearchProblem, observe: boolean): Generator<SearchStep, SearchTrace> {
+  const { weight } = problem;
+  return bestFirst(problem, observe, distanceToGoal(problem), (g, h) => g + weight * h);
+}
 
-        if (!neighborInOpenSet) { // Discover a new node
-          gScore.set(neighborKey, tentativeGScore);
-          const newPath = [...path, [nx, ny] as [number, number]];
-          openSet.push({ x: nx, y: ny, path: newPath });
-        } else if (tentativeGScore < (gScore.get(neighborKey) ?? Infinity)) {
+/**
+ * Best-first search shared by Dijkstra, A*, greedy and weighted A*.
+ * @param problem Maze, start and exit.
+ * @param observe Whether to yield a SearchStep after each expansion.
+ * @param h       Heuristic estimate of the remaining cost from a cell index to the exit.
+ * @param f       Open-set priority from g and h; plain A* uses g + h.
+ * @returns        The search trace.
+ */
+export function* bestFirst(
+  problem: SearchProblem,
+  observe: boolean,
+  h: (index: number) => number,
+  f: (g: number, h: number) => number = (g, h) => g + h
+): Generator<SearchStep, SearchTrace> {
+  const { neighbours: neighboursOf, cost, size, start, goal } = problem;
+  // gScore stores the cost of the cheapest path from start to n currently known.
+  const gScore = new Float64Array(size).fill(Infinity);
+  // cameFrom[n] is the node immediately preceding n on the cheapest path from start to n currently known.
+  const cameFrom = new Int32Array(size).fill(-1);
+  const closed = new Uint8Array(size);
+  const openSet = new IndexedMinHeap(size); // Keyed by fScore
+  const explored: number[] = [];
+  const neighbours: number[] = [];
+  let maxFrontier = 1;
+
+  gScore[start] = 0;
+  openSet.push(start, f(0, h(start)));
+
+  while (!openSet.isEmpty()) {
+    const current = openSet.pop(); // Node with the lowest fScore
+    closed[current] = 1;
+    explored.push(current);
+
+    if (current !== goal) {
+      for (const next of neighboursOf(current, neighbours)) {
+        if (closed[next]) continue; // Ignore neighbor if it's already evaluated
+
+        const tentativeGScore = gScore[current] + cost(current, next); // Distance from start to current + cost of the move
+        if (tentativeGScore < gScore[next]) {
           // This path to neighbor is better than any previous one. Record it!
-          gScore.set(neighborKey, tentativeGScore);
-          // Update path for the existing neighbor in openSet
-                  
-          const existingNodeIndex = openSet.findIndex(node => node.x === nx && node.y === ny);
-          if (existingNodeIndex > -1) {
-            openSet[existingNodeIndex].path = [...path, [nx,ny] as [number,number]];
-          }
+          gScore[next] = tentativeGScore;
+          cameFrom[next] = current;
+          openSet.push(next, f(tentativeGScore, h(next)));
         }
       }
+      maxFrontier = Math.max(maxFrontier, openSet.size);
     }
+    const withinBudget = reportProgress(problem, explored.length, openSet.size);
+
+    if (observe) {
+      const frontier = openSet.toSortedArray().map(key => frontierEntry(problem, key, { g: gScore[key], h: h(key), f: openSet.priorityOf(key) }));
+      yield snapshot(problem, current, frontier, explored);
+    }
+
+    if (current === goal) {
+      return { cameFrom, explored, found: true, maxFrontier };
+    }
+    if (!withinBudget) return { cameFrom, explored, found: false, maxFrontier, budgetExceeded: true };
   }
-  return []; // No path found
+
+  return { cameFrom, explored, found: false, maxFrontier }; // No path found
 }
 
+/**
+ * Implements iterative-deepening DFS: depth-limited DFS with the limit raised by one per iteration.
+ * Uses DFS-sized memory and finds the path with the fewest steps, at the price of re-expanding cells.
+ * @param problem Maze, start and exit.
+ * @param observe Whether to yield a SearchStep after each expansion.
+ * @returns        The search trace.
+ */
+function* iddfs(problem: SearchProblem, observe: boolean): Generator<SearchStep, SearchTrace> {
+  const explored: number[] = [];
+  let maxFrontier = 1;
+  for (let limit = 0; ; limit++) {
+    const iteration = yield* boundedDfs(problem, observe, limit, () => 1, () => 0, explored);
+    maxFrontier = Math.max(maxFrontier, iteration.maxFrontier);
+    if (iteration.found || iteration.budgetExceeded || iteration.nextBound === Infinity) {
+      return { cameFrom: iteration.cameFrom, explored, found: iteration.found, maxFrontier, budgetExceeded: iteration.budgetExceeded };
+    }
+  }
+}
 
 /**
- * Implements the A* Search exploration order for the maze, returning both explored cells and the optimal path.
- * @param startX Starting column index.
- * @param startY Starting row index.
- * @param endX   Exit column index.
- * @param endY   Exit row index.
- * @param maze   2D array of MazeCell describing walls.
- * @returns       An object containing `explored` (Array of [x,y] coordinates in exploration order)
- *                and `path` (Array of [x,y] coordinates for the optimal path).
- *                Both arrays exclude the start node.
+ * Implements IDA*: depth-first iterations bounded by f = g + h, raising the bound to the smallest
+ * f that exceeded it. Finds an optimal path using memory proportional to the path length.
+ * @param problem Maze, start and exit.
+ * @param observe Whether to yield a SearchStep after each expansion.
+ * @returns        The search trace.
  */
-function astarExplore(
-  startX: number,
-  startY: number,
-  endX:   number,
-  endY:   number,
-  maze:   MazeCell[][]
-): {
-  explored: [number, number][];
-  path:     [number, number][];
-} {
-  const W = maze[0].length;
-  const H = maze.length;
-
-  const openSet: AStarExploreSearchNode[] = [{ x: startX, y: startY, g: 0 }];
-  const inClosed = new Set<string>(); // Tracks nodes for which neighbors have been fully processed.
-  const explored: [number, number][] = []; // Tracks nodes in the order they are popped from openSet (visited for expansion).
+function* idaStar(problem: SearchProblem, observe: boolean): Generator<SearchStep, SearchTrace> {
+  const h = distanceToGoal(problem);
+  const explored: number[] = [];
+  let maxFrontier = 1;
+  for (let bound = h(problem.start); ; ) {
+    const iteration = yield* boundedDfs(problem, observe, bound, problem.cost, h, explored);
+    maxFrontier = Math.max(maxFrontier, iteration.maxFrontier);
+    if (iteration.found || iteration.budgetExceeded || iteration.nextBound === Infinity) {
+      return { cameFrom: iteration.cameFrom, explored, found: iteration.found, maxFrontier, budgetExceeded: iteration.budgetExceeded };
+    }
+    bound = iteration.nextBound;
+  }
+}
 
-  // gScore stores the cost of the cheapest path from start to n currently known.
-  const gScore = new Map<string, number>();
-  gScore.set(`${startX},${startY}`, 0);
+/**
+ * One iteration of IDDFS or IDA*: a DFS that prunes cells whose f = g + h exceeds `bound`.
+ * A cell is only re-expanded within the iteration when it is reached with a smaller g, which keeps
+ * each iteration linear in the maze size even though the braided mazes contain loops.
+ * @param problem  Maze, start and exit.
+ * @param observe  Whether to yield a SearchStep after each expansion.
+ * @param bound    Largest f allowed in this iteration.
+ * @param stepCost Cost of the move between two node keys.
+ * @param h        Heuristic estimate of the remaining cost from a node key.
+ * @param explored Expansion order across iterations, appended to.
+ * @returns         The predecessor array, whether the exit was reached, the smallest f that was pruned
+ *                  and whether the budget ran out.
+ */
+function* boundedDfs(
+  problem: SearchProblem,
+  observe: boolean,
+  bound: number,
+  stepCost: (from: number, to: number) => number,
+  h: (key: number) => number,
+  explored: number[]
+): Generator<SearchStep, { cameFrom: Int32Array; found: boolean; nextBound: number; maxFrontier: number; budgetExceeded?: boolean }> {
+  const { neighbours: neighboursOf, size, start, goal } = problem;
+  const bestG = new Float64Array(size).fill(Infinity);
+  const cameFrom = new Int32Array(size).fill(-1);
+  // The stack holds [node, parent, g] triples
+  const stack: number[] = [start, -1, 0];
+  const neighbours: number[] = [];
+  let nextBound = Infinity;
+  let maxFrontier = 1;
+  const firstExpansion = explored.length;
 
-  // cameFrom[n] is the node immediately preceding n on the cheapest path from start to n currently known.
-  const cameFrom = new Map<string, string>();
-
-  const f = (n: AStarExploreSearchNode) =>
-    n.g + heuristic(n.x, n.y, endX, endY);
-
-  const DIRS = [
-    { dx:  0, dy: -1, wall: (c: MazeCell) => c.north },
-    { dx:  1, dy:  0, wall: (c: MazeCell) => c.east  },
-    { dx:  0, dy:  1, wall: (c: MazeCell) => c.south },
-    { dx: -1, dy:  0, wall: (c: MazeCell) => c.west  },
-  ];
-
-  while (openSet.length > 0) {
-    // 1) Choose the node in openSet having the lowest fScore[] value.
-    openSet.sort((a, b) => f(a) - f(b));
-    const current = openSet.shift()!;
-    const key = `${current.x},${current.y}`;
-
-    // If current is already processed (should not happen if properly managed with closed set/gScore checks for openSet)
-    // However, a simple `inClosed.has(key)` check before adding to openSet or updating gScore is typical.
-    // Here, we add to `inClosed` after popping, so this check handles re-expansion.
-    if (inClosed.has(key)) {
-        continue;
+  while (stack.length > 0) {
+    const g = stack.pop()!;
+    const parent = stack.pop()!;
+    const current = stack.pop()!;
+    if (g >= bestG[current]) continue; // Already reached at least this cheaply in this iteration
+    bestG[current] = g;
+    cameFrom[current] = parent;
+    explored.push(current);
+
+    if (current !== goal) {
+      neighboursOf(current, neighbours);
+      for (let i = neighbours.length - 1; i >= 0; i--) {
+        const next = neighbours[i];
+        const nextG = g + stepCost(current, next);
+        if (nextG >= bestG[next]) continue;
+        const f = nextG + h(next);
+        if (f > bound) {
+          nextBound = Math.min(nextBound, f); // Pruned: a candidate for the next iteration's bound
+        } else {
+          stack.push(next, current, nextG);
+        }
+      }
+      maxFrontier = Math.max(maxFrontier, stack.length / 3);
     }
-    inClosed.add(key); // Mark as processed for expansion
+    const withinBudget = reportProgress(problem, explored.length, stack.length / 3, explored.length - firstExpansion + stack.length / 3);
 
-    // 3) Record in exploration order
-    if (current.x !== startX || current.y !== startY) { // Don't add start to explored list meant for AI pathing
-        explored.push([current.x, current.y]);
+    if (observe) {
+      const frontier: FrontierEntry[] = [];
+      for (let i = 0; i < stack.length; i += 3) {
+        const entryH = h(stack[i]);
+        frontier.push(frontierEntry(problem, stack[i], { g: stack[i + 2], h: entryH, f: stack[i + 2] + entryH }));
+      }
+      // The closed set is this iteration's; earlier iterations are forgotten
+      yield snapshot(problem, current, frontier, explored.slice(firstExpansion), explored.length);
     }
 
+    if (current === goal) {
+      return { cameFrom, found: true, nextBound, maxFrontier };
+    }
+    if (!withinBudget) return { cameFrom, found: false, nextBound, maxFrontier, budgetExceeded: true };
+  }
 
-    // 4) If current is the goal, we are done with exploration for pathfinding.
-    if (current.x === endX && current.y === endY) {
-      // Path reconstruction happens after loop if goal is found
-      break;
+  return { cameFrom, found: false, nextBound, maxFrontier };
+}
+
+/**
+ * Joins the two halves of a bidirectional search into one predecessor array running start -> exit.
+ * @param parents  Per side predecessor arrays; each points back toward its own wave's origin.
+ * @param meeting  Node where the waves joined.
+ * @param size     Number of nodes in the graph.
+ * @returns         Predecessor array in the same shape as the single-direction searches produce.
+ */
+function joinHalves(parents: [Int32Array, Int32Array], meeting: number, size: number): Int32Array {
+  const cameFrom = new Int32Array(size).fill(-1);
+  for (let index = meeting; parents[0][index] !== -1; index = parents[0][index]) {
+    cameFrom[index] = parents[0][index];
+  }
+  // Walking the exit wave's predecessors from the meeting cell leads to the exit, so reverse each link
+  for (let index = meeting; parents[1][index] !== -1; index = parents[1][index]) {
+    cameFrom[parents[1][index]] = index;
+  }
+  return cameFrom;
+}
+
+/**
+ * Implements bidirectional BFS: one wave from the start and one from the exit, expanding a whole
+ * layer of the smaller wave at a time. Finishing the layer in which the waves first touch guarantees
+ * the path has the fewest steps. Each wave only needs to reach about half the solution depth.
+ * @param problem Maze, start and exit.
+ * @param observe Whether to yield a SearchStep after each expansion.
+ * @returns        The search trace, including the side of each expansion and the meeting cell.
+ */
+function* bidirectionalBfs(problem: SearchProblem, observe: boolean): Generator<SearchStep, SearchTrace> {
+  const { neighbours: neighboursOf, size, start, goal } = problem;
+  const depth: [Int32Array, Int32Array] = [new Int32Array(size).fill(-1), new Int32Array(size).fill(-1)];
+  const parents: [Int32Array, Int32Array] = [new Int32Array(size).fill(-1), new Int32Array(size).fill(-1)];
+  const layers: [number[], number[]] = [[start], [goal]];
+  const explored: number[] = [];
+  const sides: number[] = [];
+  const neighbours: number[] = [];
+  let best = start === goal ? 0 : Infinity;
+  let meeting = start === goal ? start : -1;
+  let maxFrontier = 1;
+  let budgetExceeded = false;
+
+  depth[0][start] = 0;
+  depth[1][goal] = 0;
+
+  while (best === Infinity && !budgetExceeded && layers[0].length > 0 && layers[1].length > 0) {
+    const side = layers[0].length <= layers[1].length ? 0 : 1; // Grow the smaller wave
+    const other = 1 - side;
+    const layer = layers[side];
+    const nextLayer: number[] = [];
+
+    for (let i = 0; i < layer.length; i++) {
+      const current = layer[i];
+      explored.push(current);
+      sides.push(side);
+
+      for (const next of neighboursOf(current, neighbours)) {
+        if (depth[side][next] !== -1) continue;
+        depth[side][next] = depth[side][current] + 1;
+        parents[side][next] = current;
+        nextLayer.push(next);
+        if (depth[other][next] !== -1 && depth[side][next] + depth[other][next] < best) {
+          best = depth[side][next] + depth[other][next];
+          meeting = next;
+        }
+      }
+      maxFrontier = Math.max(maxFrontier, layer.length - i - 1 + nextLayer.length + layers[other].length);
+      budgetExceeded = !reportProgress(problem, explored.length, layer.length - i - 1 + nextLayer.length + layers[other].length);
+
+      if (observe) {
+        const entry = (key: number, entrySide: number) => frontierEntry(problem, key, { side: entrySide === 0 ? 'start' : 'exit' });
+        const frontier = [
+          ...layer.slice(i + 1).map(index => entry(index, side)),
+          ...nextLayer.map(index => entry(index, side)),
+          ...layers[other].map(index => entry(index, other)),
+        ];
+        yield snapshot(problem, current, frontier, explored, explored.length, sides);
+      }
+      // Out of budget: a meeting already found is kept even if the layer could still improve on it
+      if (budgetExceeded) break;
     }
+    layers[side] = nextLayer;
+  }
 
-    // 5) Expand neighbors
-    for (const { dx, dy, wall } of DIRS) {
-      const nx = current.x + dx;
-      const ny = current.y + dy;
-      const nkey = `${nx},${ny}`;
+  const found = meeting !== -1;
+  // Without a meeting, the start wave's predecessors still give partial routes
+  return { cameFrom: found ? joinHalves(parents, meeting, size) : parents[0], explored, found, maxFrontier, sides, meeting, budgetExceeded: budgetExceeded && !found };
+}
 
-      // Check bounds and wall
-      if (
-        nx < 0 || nx >= W ||
-        ny < 0 || ny >= H ||
-        wall(maze[current.y][current.x]) ||
-        inClosed.has(nkey) // Skip if already fully processed
-      ) {
-        continue;
+/**
+ * Implements bidirectional A*: A* from the start toward the exit and from the exit toward the start,
+ * expanding the side with the smaller open set. Both sides use the averaged potential
+ * (h_exit - h_start) / 2 so their keys stay consistent, which makes it safe to stop as soon as the
+ * two smallest keys add up to the best meeting cost found so far. The path it finds is optimal.
+ * @param problem Maze, start and exit.
+ * @param observe Whether to yield a SearchStep after each expansion.
+ * @returns        The search trace, including the side of each expansion and the meeting cell.
+ */
+function* bidirectionalAstar(problem: SearchProblem, observe: boolean): Generator<SearchStep, SearchTrace> {
+  const { neighbours: neighboursOf, cost, heuristic, size, start, goal } = problem;
+  const toExit = distanceToGoal(problem);
+  // The exit wave needs an estimate of the cost from the start to a node, not back to it
+  const toStart = (key: number) => heuristic(start, key);
+  // Potential of the start wave; the exit wave uses its negation
+  const potential = (index: number, side: number) => (side === 0 ? 1 : -1) * (toExit(index) - toStart(index)) / 2;
+
+  const gScore: [Float64Array, Float64Array] = [new Float64Array(size).fill(Infinity), new Float64Array(size).fill(Infinity)];
+  const parents: [Int32Array, Int32Array] = [new Int32Array(size).fill(-1), new Int32Array(size).fill(-1)];
+  const closed: [Uint8Array, Uint8Array] = [new Uint8Array(size), new Uint8Array(size)];
+  const openSets: [IndexedMinHeap, IndexedMinHeap] = [new IndexedMinHeap(size), new IndexedMinHeap(size)];
+  const explored: number[] = [];
+  const sides: number[] = [];
+  const neighbours: number[] = [];
+  let best = start === goal ? 0 : Infinity;
+  let meeting = start === goal ? start : -1;
+  let maxFrontier = 2;
+  let budgetExceeded = false;
+
+  gScore[0][start] = 0;
+  gScore[1][goal] = 0;
+  openSets[0].push(start, potential(start, 0));
+  openSets[1].push(goal, potential(goal, 1));
+
+  while (!openSets[0].isEmpty() && !openSets[1].isEmpty()) {
+    const topKeys = openSets[0].priorityOf(openSets[0].peek()) + openSets[1].priorityOf(openSets[1].peek());
+    if (topKeys >= best) break; // No unexplored route can beat the best meeting found so far
+
+    const side = openSets[0].size <= openSets[1].size ? 0 : 1;
+    const other = 1 - side;
+    const current = openSets[side].pop();
+    closed[side][current] = 1;
+    explored.push(current);
+    sides.push(side);
+
+    for (const next of neighboursOf(current, neighbours)) {
+      if (closed[side][next]) continue;
+      // The exit wave runs moves backwards, so it pays for next -> current
+      const tentativeGScore = gScore[side][current] + (side === 0 ? cost(current, next) : cost(next, current));
+      if (tentativeGScore < gScore[side][next]) {
+        gScore[side][next] = tentativeGScore;
+        parents[side][next] = current;
+        openSets[side].push(next, tentativeGScore + potential(next, side));
+        if (tentativeGScore + gScore[other][next] < best) {
+          best = tentativeGScore + gScore[other][next];
+          meeting = next;
+        }
       }
+    }
+    maxFrontier = Math.max(maxFrontier, openSets[0].size + openSets[1].size);
+    budgetExceeded = !reportProgress(problem, explored.length, openSets[0].size + openSets[1].size);
+
+    if (observe) {
+      const frontier: FrontierEntry[] = [];
+      for (const entrySide of [0, 1]) {
+        for (const key of openSets[entrySide].toSortedArray()) {
+          const g = gScore[entrySide][key];
+          const h = entrySide === 0 ? toExit(key) : toStart(key);
+          frontier.push(frontierEntry(problem, key, { g, h, f: openSets[entrySide].priorityOf(key), side: entrySide === 0 ? 'start' : 'exit' }));
+        }
+      }
+      yield snapshot(problem, current, frontier, explored, explored.length, sides);
+    }
+    if (budgetExceeded) break; // The best meeting so far is kept, though it may not be optimal
+  }
 
-      const tentativeG = current.g + 1; // Assuming cost of moving to neighbor is 1
-
-      // If this path to neighbor is better than any previous one
-      if (tentativeG < (gScore.get(nkey) ?? Infinity)) {
-        cameFrom.set(nkey, key);
-        gScore.set(nkey, tentativeG);
-        
-        // Add to openSet if not already there, or update if a better path found
-        // (sorting handles priority implicitly after push; for true priority queue, would update)
-        const existingNodeInOpenSet = openSet.find(node => node.x === nx && node.y === ny);
-        if (!existingNodeInOpenSet) {
-            openSet.push({ x: nx, y: ny, g: tentativeG });
-        } else {
-            // If using a min-heap, this would be an update operation.
-            // With a sorted array, it might get re-evaluated.
-            // For simplicity with array `sort`, ensure gScore map is the source of truth for `f`
-            existingNodeInOpenSet.g = tentativeG; // Update g for resorting
+  const found = meeting !== -1;
+  return { cameFrom: found ? joinHalves(parents, meeting, size) : parents[0], explored, found, maxFrontier, sides, meeting, budgetExceeded: budgetExceeded && !found };
+}
+
+// Jump directions in exploration order (Up, Right, Down, Left); reversing a direction is (d + 2) % 4
+const JUMP_DIRECTIONS: { dx: number; dy: number; wall: number }[] = [
+  { dx: 0, dy: -1, wall: WALL_NORTH },
+  { dx: 1, dy: 0, wall: WALL_EAST },
+  { dx: 0, dy: 1, wall: WALL_SOUTH },
+  { dx: -1, dy: 0, wall: WALL_WEST },
+];
+
+/**
+ * Slides from `from` in direction `d` until it reaches a jump point: the exit, or a cell with an
+ * opening to either side. Cells passed on the way are corridor cells whose only continuation is
+ * straight ahead, so skipping them never loses a shorter route.
+ * @returns The jump point index and the summed cost of the cells entered, or null at a dead end.
+ */
+function jump(maze: GridMaze, from: number, d: number, goal: number): { index: number; cost: number } | null {
+  const [width, height] = gridSize(maze);
+  const { dx, dy, wall } = JUMP_DIRECTIONS[d];
+  const sides = JUMP_DIRECTIONS[(d + 3) % 4].wall | JUMP_DIRECTIONS[(d + 1) % 4].wall;
+  let x = from % width;
+  let y = (from - x) / width;
+  let index = from;
+  let cost = 0;
+
+  for (;;) {
+    if (wallsAt(maze, index) & wall) return null;
+    x += dx;
+    y += dy;
+    if (x < 0 || x >= width || y < 0 || y >= height) return null;
+    index = y * width + x;
+    cost += cellCost(maze, index);
+    if (index === goal || (wallsAt(maze, index) & sides) !== sides) return { index, cost };
+  }
+}
+
+/**
+ * Implements Jump Point Search for the four-connected, wall-per-side maze. A* runs over jump points
+ * only: from each one it slides straight ahead and to both sides (never back the way it came) until
+ * it hits the next junction, so long corridors cost one expansion. The returned path is expanded back
+ * into single-cell steps and is optimal, including on weighted terrain. Other graphs get plain A*.
+ * @param problem Maze, start and exit.
+ * @param observe Whether to yield a SearchStep after each expansion.
+ * @returns        The search trace; `explored` holds the jump points in expansion order.
+ */
+function* jumpPointSearch(problem: SearchProblem, observe: boolean): Generator<SearchStep, SearchTrace> {
+  const { maze, size, start, goal } = problem;
+  if (!maze) return yield* astar(problem, observe);
+  const [width] = gridSize(maze);
+  const h = distanceToGoal(problem);
+  const gScore = new Float64Array(size).fill(Infinity);
+  const jumpedFrom = new Int32Array(size).fill(-1); // previous jump point on the best known route
+  const arrivedBy = new Int8Array(size).fill(-1);   // direction of the last slide into a jump point, -1 for the start
+  const closed = new Uint8Array(size);
+  const openSet = new IndexedMinHeap(size);
+  const explored: number[] = [];
+  let maxFrontier = 1;
+
+  gScore[start] = 0;
+  openSet.push(start, h(start));
+
+  while (!openSet.isEmpty()) {
+    const current = openSet.pop();
+    closed[current] = 1;
+    explored.push(current);
+
+    if (current !== goal) {
+      for (let d = 0; d < JUMP_DIRECTIONS.length; d++) {
+        if (arrivedBy[current] !== -1 && d === (arrivedBy[current] + 2) % 4) continue; // Never slide back
+        const found = jump(maze, current, d, goal);
+        if (!found || closed[found.index]) continue;
+        const tentativeGScore = gScore[current] + found.cost;
+        if (tentativeGScore < gScore[found.index]) {
+          gScore[found.index] = tentativeGScore;
+          jumpedFrom[found.index] = current;
+          arrivedBy[found.index] = d;
+          openSet.push(found.index, tentativeGScore + h(found.index));
         }
       }
+      maxFrontier = Math.max(maxFrontier, openSet.size);
+    }
+    const withinBudget = reportProgress(problem, explored.length, openSet.size);
+
+    if (observe) {
+      const frontier = openSet.toSortedArray().map(key => frontierEntry(problem, key, { g: gScore[key], h: h(key), f: openSet.priorityOf(key) }));
+      yield snapshot(problem, current, frontier, explored);
+    }
+
+    if (current === goal) {
+      return { cameFrom: expandJumps(jumpedFrom, goal, width), explored, found: true, maxFrontier };
+    }
+    if (!withinBudget) {
+      return { cameFrom: expandJumps(jumpedFrom, closestToGoal(problem, explored), width), explored, found: false, maxFrontier, budgetExceeded: true };
     }
   }
 
-  // Reconstruct the optimal path from end to start
-  const optimalPath: [number, number][] = [];
-  let curKey = `${endX},${endY}`;
-  // Check if the goal was reached (i.e., curKey is in cameFrom or is the start)
-  if (gScore.has(curKey)) { // Ensures goal was reachable
-    while (curKey && curKey !== `${startX},${startY}`) {
-        const [cx, cy] = curKey.split(',').map(Number) as [number, number];
-        optimalPath.push([cx, cy]);
-        curKey = cameFrom.get(curKey)!; // Move to the predecessor
+  // No path found; the route to the closest jump point is the partial path
+  return { cameFrom: expandJumps(jumpedFrom, closestToGoal(problem, explored), width), explored, found: false, maxFrontier };
+}
+
+/**
+ * Fills in the cells between consecutive jump points, producing a cell-by-cell predecessor array.
+ * @param jumpedFrom Previous jump point of each jump point, -1 for the start.
+ * @param goal       Last jump point of the route.
+ * @param width      Maze width.
+ */
+function expandJumps(jumpedFrom: Int32Array, goal: number, width: number): Int32Array {
+  const cameFrom = new Int32Array(jumpedFrom.length).fill(-1);
+  for (let to = goal; jumpedFrom[to] !== -1; to = jumpedFrom[to]) {
+    const from = jumpedFrom[to];
+    // Jump points are joined by straight segments, so step one cell at a time along the segment
+    const step = Math.abs(to - from) < width ? Math.sign(to - from) : Math.sign(to - from) * width;
+    for (let index = to; index !== from; index -= step) cameFrom[index] = index - step;
+  }
+  return cameFrom;
+}
+
+/**
+ * D* Lite (Koenig & Likhachev): keeps a shortest route from a moving agent to the exit and repairs it
+ * when walls appear or disappear, re-expanding only the cells whose distance actually changed.
+ *
+ * It searches backwards from the exit, so `g` holds each cell's cost to reach the exit and the agent
+ * simply steps to the neighbour minimising step cost + g. When walls move, callers hand it the edited
+ * copy of the maze with setMaze, then report each changed wall with wallChanged.
+ * Replanning is lazy: it happens on the next nextStep/path call.
+ */
+export class DStarLite {
+  private maze: GridMaze;
+  private readonly width: number;
+  private readonly goal: number;
+  private readonly minCost: number;
+  private readonly g: Float64Array;   // cost from each cell to the exit, as last settled
+  private readonly rhs: Float64Array; // one-step lookahead of g
+  private readonly open: IndexedMinHeap; // keyed by [k1, k2]
+  private readonly neighbours: number[] = [];
+  private start: number;
+  private last: number; // agent position when the key modifier was last raised
+  private km = 0;       // key modifier: heuristic distance the agent has moved since the search started
+  private dirty = true;
+  private expansions = 0;
+
+  /**
+   * @param maze   2D array of MazeCell or a PackedMaze describing walls.
+   * @param startX Agent column index.
+   * @param startY Agent row index.
+   * @param endX   Exit column index.
+   * @param endY   Exit row index.
+   */
+  constructor(maze: GridMaze, startX: number, startY: number, endX: number, endY: number) {
+    this.maze = maze;
+    const [width, height] = gridSize(maze);
+    this.width = width;
+    const size = width * height;
+    this.goal = endY * this.width + endX;
+    this.start = this.last = startY * this.width + startX;
+    this.minCost = minCellCost(maze);
+    this.g = new Float64Array(size).fill(Infinity);
+    this.rhs = new Float64Array(size).fill(Infinity);
+    this.open = new IndexedMinHeap(size);
+    this.rhs[this.goal] = 0;
+    this.open.push(this.goal, this.h(this.start, this.goal), 0);
+  }
+
+  /** Cells expanded since construction, across all repairs. */
+  get expanded(): number {
+    return this.expansions;
+  }
+
+  /** The agent's current cell. */
+  get position(): [number, number] {
+    return [this.start % this.width, Math.floor(this.start / this.width)];
+  }
+
+  /**
+   * Records that the agent now stands on (x, y), normally the cell nextStep returned.
+   */
+  moveTo(x: number, y: number): void {
+    this.start = y * this.width + x;
+  }
+
+  /**
+   * Switches to a new version of the maze, with the same size and terrain, whose walls differ. Report
+   * each wall that changed with wallChanged afterwards.
+   */
+  setMaze(maze: GridMaze): void {
+    this.maze = maze;
+  }
+
+  /**
+   * Reports that the wall between (x, y) and the adjacent cell (nx, ny) was added or removed.
+   */
+  wallChanged(x: number, y: number, nx: number, ny: number): void {
+    // Queued keys were computed for an older agent position; raising every new key by the distance
+    // moved since keeps the two comparable without re-keying the whole queue
+    this.km += this.h(this.last, this.start);
+    this.last = this.start;
+    this.updateVertex(y * this.width + x);
+    this.updateVertex(ny * this.width + nx);
+    this.dirty = true;
+  }
+
+  /**
+   * Returns the next cell on a cheapest route to the exit, replanning first if walls changed.
+   * @returns The neighbour to move to, or null at the exit or while the exit is unreachable.
+   */
+  nextStep(): [number, number] | null {
+    this.replan();
+    if (this.start === this.goal || this.g[this.start] === Infinity) return null;
+    const next = this.bestSuccessor(this.start);
+    return next === -1 ? null : [next % this.width, Math.floor(next / this.width)];
+  }
+
+  /**
+   * Returns the whole current route from the agent (exclusive) to the exit, [] if there is none.
+   */
+  path(): [number, number][] {
+    this.replan();
+    const route: [number, number][] = [];
+    if (this.g[this.start] === Infinity) return route;
+    for (let cell = this.start; cell !== this.goal && route.length < this.g.length;) {
+      cell = this.bestSuccessor(cell);
+      if (cell === -1) return [];
+      route.push([cell % this.width, Math.floor(cell / this.width)]);
     }
+    return route;
   }
-  optimalPath.reverse(); // Path is now from start (exclusive, if start isn't pushed) to end.
 
-  // The initial `explored.push` was inside the loop after popping.
-  // `explored.slice(1)` was used in the user's example.
-  // If startX,startY was pushed to `explored` first, then `slice(1)` is correct.
-  // My current logic for `explored` avoids adding startX,startY initially.
+  private h(a: number, b: number): number {
+    const ax = a % this.width;
+    const bx = b % this.width;
+    return this.minCost * (Math.abs(ax - bx) + Math.abs((a - ax) / this.width - (b - bx) / this.width));
+  }
 
-  // Let's ensure `explored` correctly excludes the start node if that's the convention.
-  // The very first node popped is startX, startY. If it was added to `explored`, then `slice(1)` is needed.
-  // My `explored.push` is conditional: `if (current.x !== startX || current.y !== startY)`
-  // This means `explored` already excludes the start node. So, `explored.slice(1)` is not needed for `explored`.
+  private cost(index: number): number {
+    return cellCost(this.maze, index);
+  }
 
-  // For `optimalPath`, it's reconstructed from `endX,endY` back to (but not including) `startX,startY`.
-  // So `optimalPath` is already `[first_step_after_start, ..., end_node]`.
-  // The user's code had `path: path.slice(1)`. This is likely not needed if reconstruction is correct.
-  // I will return `optimalPath` as is.
+  // The open neighbour minimising step cost + g, or -1 if all are unreachable
+  private bestSuccessor(index: number): number {
+    let best = -1;
+    let bestCost = Infinity;
+    for (const next of openNeighbours(this.maze, index, this.neighbours)) {
+      const viaNext = this.cost(next) + this.g[next];
+      if (viaNext < bestCost) {
+        best = next;
+        bestCost = viaNext;
+      }
+    }
+    return best;
+  }
 
-  return {
-    explored: explored, // Already excludes start
-    path: optimalPath,  // Already excludes start
-  };
-}
+  private updateVertex(index: number): void {
+    if (index !== this.goal) {
+      let best = Infinity;
+      for (const next of openNeighbours(this.maze, index, this.neighbours)) best = Math.min(best, this.cost(next) + this.g[next]);
+      this.rhs[index] = best;
+    }
+    this.open.remove(index);
+    if (this.g[index] !== this.rhs[index]) {
+      const k2 = Math.min(this.g[index], this.rhs[index]);
+      this.open.push(index, k2 + this.h(this.start, index) + this.km, k2);
+    }
+  }
 
-// Example usage (can be removed or commented out for production)
-/*
-import { findPath } from './pathfinder';
-// ...
-const path = findPath(sx, sy, ex, ey, 'BFS', maze); // Example call
-// For ASTAR_EXPLORE, if you need both:
-// const { explored, path: optimalAStarPath } = astarExplore(sx, sy, ex, ey, maze);
-// setAIPath(explored); // if AI follows exploration
-// or setAIPath(optimalAStarPath); // if AI should follow the optimal path after exploration visualization
-*/
+  // Settles cells until the agent's distance is correct
+  private replan(): void {
+    if (!this.dirty) return;
+    const { g, rhs, open } = this;
+    const startKey = () => {
+      const k2 = Math.min(g[this.start], rhs[this.start]);
+      return [k2 + this.km, k2];
+    };
+    const less = (a1: number, a2: number, b1: number, b2: number) => a1 < b1 || (a1 === b1 && a2 < b2);
+    const affected: number[] = [];
+
+    while (!open.isEmpty()) {
+      const [s1, s2] = startKey();
+      const u = open.peek();
+      const old1 = open.priorityOf(u);
+      const old2 = open.secondaryOf(u);
+      if (!less(old1, old2, s1, s2) && rhs[this.start] === g[this.start]) break;
+
+      const new2 = Math.min(g[u], rhs[u]);
+      const new1 = new2 + this.h(this.start, u) + this.km;
+      if (less(old1, old2, new1, new2)) {
+        // Queued before the agent moved: requeue with the up-to-date key
+        open.remove(u);
+        open.push(u, new1, new2);
+        continue;
+      }
+      open.pop();
+      this.expansions++;
+      // Every cell that can step into `u` depends on g[u]
+      affected.length = 0;
+      affected.push(...openNeighbours(this.maze, u, this.neighbours));
+      if (g[u] > rhs[u]) {
+        g[u] = rhs[u];
+      } else {
+        g[u] = Infinity;
+        affected.push(u);
+      }
+      for (const cell of affected) this.updateVertex(cell);
+    }
+    this.dirty = false;
+  }
+}
 
+registerSearchMethod({
+  id: 'DFS',
+  label: 'DFS',
+  description: 'Depth-first search: follows one corridor as deep as it goes before backtracking. Uses little memory, but the path can wander.',
+  properties: { complete: true, optimal: false, informed: false },
+  solver: dfs,
+});
+
+registerSearchMethod({
+  id: 'BFS',
+  label: 'BFS',
+  description: 'Breadth-first search: expands cells in rings around the start. Finds the path with the fewest steps, ignoring terrain.',
+  properties: { complete: true, optimal: false, informed: false },
+  solver: bfs,
+});
+
+registerSearchMethod({
+  id: 'DIJKSTRA',
+  label: 'Dijkstra',
+  description: 'Uniform-cost search: expands cells in order of the cost to reach them. Finds the cheapest path.',
+  properties: { complete: true, optimal: true, informed: false },
+  solver: dijkstra,
+});
+
+registerSearchMethod({
+  id: 'ASTAR',
+  label: 'A*',
+  description: 'Expands the cell with the lowest cost so far plus estimated cost to the exit. Finds the cheapest path with an admissible heuristic.',
+  properties: { complete: true, optimal: true, informed: true },
+  solver: astar,
+});
+
+registerSearchMethod({
+  id: 'GREEDY',
+  label: 'Greedy best-first',
+  description: 'Always expands the cell that looks closest to the exit. Fast, but the path is often not the shortest.',
+  properties: { complete: true, optimal: false, informed: true },
+  solver: greedy,
+});
+
+registerSearchMethod({
+  id: 'WEIGHTED_ASTAR',
+  label: 'Weighted A*',
+  description: 'A* with the heuristic multiplied by a weight. Expands fewer cells; the path costs at most weight times the optimum.',
+  properties: { complete: true, optimal: false, informed: true },
+  solver: weightedAstar,
+});
+
+registerSearchMethod({
+  id: 'IDDFS',
+  label: 'IDDFS',
+  description: 'Iterative deepening: depth-limited DFS with a growing limit. Finds the fewest-step path with DFS-sized memory.',
+  properties: { complete: true, optimal: false, informed: false },
+  solver: iddfs,
+});
+
+registerSearchMethod({
+  id: 'IDA_STAR',
+  label: 'IDA*',
+  description: 'Iterative deepening A*: depth-first passes bounded by g + h, raising the bound each pass. Finds the cheapest path.',
+  properties: { complete: true, optimal: true, informed: true },
+  solver: idaStar,
+});
+
+registerSearchMethod({
+  id: 'BIDIRECTIONAL_BFS',
+  label: 'Bidirectional BFS',
+  description: 'Two breadth-first waves from the start and the exit that stop when they meet. Finds the fewest-step path.',
+  properties: { complete: true, optimal: false, informed: false },
+  solver: bidirectionalBfs,
+});
+
+registerSearchMethod({
+  id: 'BIDIRECTIONAL_ASTAR',
+  label: 'Bidirectional A*',
+  description: 'A* from both ends at once, stopping when the waves can no longer improve their meeting point. Finds the cheapest path.',
+  properties: { complete: true, optimal: true, informed: true },
+  solver: bidirectionalAstar,
+});
+
+registerSearchMethod({
+  id: 'JPS',
+  label: 'JPS',
+  description: 'Jump Point Search: A* that slides along straight corridors and only stops at junctions. Finds the cheapest path.',
+  properties: { complete: true, optimal: true, informed: true },
+  solver: jumpPointSearch,
+});
@@ -0,0 +1,26 @@
+/**
+ * @fileOverview Web Worker entry point that runs searches off the main thread for searchAsync and
+ * searchTopologyAsync.
+ *
+ * The worker answers one SolveRequest with any number of `progress` messages followed by a single
+ * `result` or `error` message. Cancellation is done by terminating the worker, so the search loop
+ * itself never has to check for it.
+ */
+
+import { search, searchGraph, type GridMaze, type SearchOptions, type SearchResult } from '@/pathfinder';
+import { getTopology, TopologyGraph, type TopologyMaze } from '@/topology';
+import type { SolveRequest, SolveResponse } from '@/pathfinder-async';
+
+self.addEventListener('message', (event: MessageEvent<SolveRequest>) => {
+  const { startX, startY, endX, endY, method, maze, topology, options } = event.data;
+  const post = (response: SolveResponse) => self.postMessage(response);
+  const searchOptions: SearchOptions = { ...options, onProgress: progress => post({ type: 'progress', progress }) };
+  try {
+    const result: SearchResult = topology === undefined
+      ? search(startX, startY, endX, endY, method, maze as GridMaze, searchOptions)
+      : searchGraph(new TopologyGraph(getTopology(topology), maze as TopologyMaze), [startX, startY], [endX, endY], method, searchOptions);
+    post({ type: 'result', result });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+});
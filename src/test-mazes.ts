@@ -0,0 +1,138 @@
+/**
+ * @fileOverview Hand-built and pseudo-random square mazes, with reference answers, for the tests.
+ *
+ * - closedMaze / open - Build a maze wall by wall.
+ * - twoRoutes - A small maze with a short and a long route to its exit.
+ * - randomMaze - A braided maze with terrain, the same for the same seed.
+ * - perfectMaze - A maze with exactly one route between any two cells, the same for the same seed.
+ * - cheapestCost - Cost of the cheapest route, by the textbook O(n²) Dijkstra, optionally with diagonal steps.
+ * - assertWalk - Checks that a path only makes single open moves.
+ *
+ * The reference answers are deliberately naive, so they share no code with the searches they check.
+ */
+
+import assert from 'node:assert/strict';
+
+export type Cell = { north: boolean; east: boolean; south: boolean; west: boolean; cost?: number };
+
+// A maze with every wall up
+export function closedMaze(width: number, height: number): Cell[][] {
+  return Array.from({ length: height }, () => Array.from({ length: width }, () => ({ north: true, east: true, south: true, west: true })));
+}
+
+// Knocks down the wall between (x, y) and its neighbour (x + dx, y + dy), from both sides
+export function open(maze: Cell[][], x: number, y: number, dx: number, dy: number): void {
+  const [here, there] = [maze[y][x], maze[y + dy][x + dx]];
+  if (dx === 1) [here.east, there.west] = [false, false];
+  if (dx === -1) [here.west, there.east] = [false, false];
+  if (dy === 1) [here.south, there.north] = [false, false];
+  if (dy === -1) [here.north, there.south] = [false, false];
+}
+
+// 4 x 2 with two routes from (0, 0) to (3, 0): 3 moves along the top, 5 along the bottom
+//   S . . E
+//   . . . .
+export function twoRoutes(): Cell[][] {
+  const maze = closedMaze(4, 2);
+  for (let x = 0; x < 3; x++) {
+    open(maze, x, 0, 1, 0);
+    open(maze, x, 1, 1, 0);
+  }
+  open(maze, 0, 0, 0, 1);
+  open(maze, 3, 0, 0, 1);
+  return maze;
+}
+
+// Pseudo-random numbers in [0, 1) from a linear congruential generator
+function lcg(seed: number): () => number {
+  let state = seed;
+  return () => (state = (state * 1103515245 + 12345) % 2147483648) / 2147483648;
+}
+
+// A braided width x height maze with terrain, the same for the same seed
+export function randomMaze(width: number, height: number, seed: number): Cell[][] {
+  const random = lcg(seed);
+  const maze = closedMaze(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (x < width - 1 && random() < 0.6) open(maze, x, y, 1, 0);
+      if (y < height - 1 && random() < 0.6) open(maze, x, y, 0, 1);
+      const cost = [1, 1, 3, 5][Math.floor(random() * 4)];
+      if (cost > 1) maze[y][x].cost = cost;
+    }
+  }
+  return maze;
+}
+
+// A perfect width x height maze carved by a randomised depth-first walk, the same for the same seed
+export function perfectMaze(width: number, height: number, seed: number): Cell[][] {
+  const random = lcg(seed);
+  const maze = closedMaze(width, height);
+  const visited = new Set([0]);
+  const stack: [number, number][] = [[0, 0]];
+  while (stack.length > 0) {
+    const [x, y] = stack[stack.length - 1];
+    const moves = [[0, -1], [1, 0], [0, 1], [-1, 0]].filter(([dx, dy]) =>
+      x + dx >= 0 && x + dx < width && y + dy >= 0 && y + dy < height && !visited.has((y + dy) * width + x + dx));
+    if (moves.length === 0) {
+      stack.pop();
+      continue;
+    }
+    const [dx, dy] = moves[Math.floor(random() * moves.length)];
+    open(maze, x, y, dx, dy);
+    visited.add((y + dy) * width + x + dx);
+    stack.push([x + dx, y + dy]);
+  }
+  return maze;
+}
+
+// Cost of the cheapest route, by a plain Dijkstra that scans for the closest unsettled cell. With
+// `diagonal`, a diagonal step costs √2 times the cell it enters and needs both L-shaped routes open
+export function cheapestCost(maze: Cell[][], start: [number, number], goal: [number, number], diagonal = false): number {
+  const width = maze[0].length;
+  const distance = new Array<number>(width * maze.length).fill(Infinity);
+  const settled = new Array<boolean>(distance.length).fill(false);
+  distance[start[1] * width + start[0]] = 0;
+  for (;;) {
+    let closest = -1;
+    distance.forEach((d, index) => {
+      if (!settled[index] && d < Infinity && (closest === -1 || d < distance[closest])) closest = index;
+    });
+    if (closest === -1) return Infinity;
+    const [x, y] = [closest % width, Math.floor(closest / width)];
+    if (x === goal[0] && y === goal[1]) return distance[closest];
+    settled[closest] = true;
+    const cell = maze[y][x];
+    const moves: [boolean, number, number][] = [[cell.north, 0, -1], [cell.east, 1, 0], [cell.south, 0, 1], [cell.west, -1, 0]];
+    for (const [wall, dx, dy] of moves) {
+      if (wall) continue;
+      const next = (y + dy) * width + x + dx;
+      distance[next] = Math.min(distance[next], distance[closest] + (maze[y + dy][x + dx].cost ?? 1));
+    }
+    if (!diagonal) continue;
+    for (const [dx, dy] of [[1, 1], [1, -1], [-1, 1], [-1, -1]]) {
+      if (!isOpen(maze, x, y, dx, 0) || !isOpen(maze, x + dx, y, 0, dy) || !isOpen(maze, x, y, 0, dy) || !isOpen(maze, x, y + dy, dx, 0)) continue;
+      const next = (y + dy) * width + x + dx;
+      distance[next] = Math.min(distance[next], distance[closest] + Math.SQRT2 * (maze[y + dy][x + dx].cost ?? 1));
+    }
+  }
+}
+
+// Whether a single step from (x, y) by (dx, dy), one of them 0, stays inside and crosses no wall
+function isOpen(maze: Cell[][], x: number, y: number, dx: number, dy: number): boolean {
+  if (!maze[y + dy]?.[x + dx]) return false;
+  const cell = maze[y][x];
+  return !(dx === 1 ? cell.east : dx === -1 ? cell.west : dy === 1 ? cell.south : cell.north);
+}
+
+// Checks that `path` is a walk of single open moves from the start
+export function assertWalk(maze: Cell[][], start: [number, number], path: [number, number][]): void {
+  let [x, y] = start;
+  for (const [nx, ny] of path) {
+    const cell = maze[y][x];
+    const blocked = (nx === x + 1 && cell.east) || (nx === x - 1 && cell.west) || (ny === y + 1 && cell.south) || (ny === y - 1 && cell.north);
+    assert.equal(Math.abs(nx - x) + Math.abs(ny - y), 1, `(${x}, ${y}) -> (${nx}, ${ny}) is not a single move`);
+    assert.ok(!blocked, `(${x}, ${y}) -> (${nx}, ${ny}) goes through a wall`);
+    [x, y] = [nx, ny];
+  }
+}
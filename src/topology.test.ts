@@ -0,0 +1,132 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getSearchMethods, searchGraph } from '@/pathfinder';
+import { searchTopologyAsync } from '@/pathfinder-async';
+import { carveTopologyMaze, getTopologies, setTopologyWall, TopologyGraph, type Topology, type TopologyMaze } from '@/topology';
+
+const WIDTH = 9;
+const HEIGHT = 7;
+const START: [number, number] = [0, 0];
+const EXIT: [number, number] = [8, 6];
+
+// Every neighbour reachable through open walls, by plain breadth-first search
+function reachable(graph: TopologyGraph, from: [number, number]): Set<string> {
+  const seen = new Set([from.join()]);
+  const queue = [from];
+  while (queue.length > 0) {
+    for (const next of graph.neighbours(queue.shift()!)) {
+      if (seen.has(next.join())) continue;
+      seen.add(next.join());
+      queue.push(next);
+    }
+  }
+  return seen;
+}
+
+// Cost of the cheapest route, by a Dijkstra that scans every node for the closest one
+function cheapestCost(graph: TopologyGraph, start: [number, number], goal: [number, number]): number {
+  const distance = new Map([[start.join(), 0]]);
+  const settled = new Set<string>();
+  for (;;) {
+    let closest: string | undefined;
+    for (const [node, d] of distance) {
+      if (!settled.has(node) && (closest === undefined || d < distance.get(closest)!)) closest = node;
+    }
+    if (closest === undefined) return Infinity;
+    if (closest === goal.join()) return distance.get(closest)!;
+    settled.add(closest);
+    const node = closest.split(',').map(Number) as [number, number];
+    for (const next of graph.neighbours(node)) {
+      const viaNode = distance.get(closest)! + graph.cost(node, next);
+      if (viaNode < (distance.get(next.join()) ?? Infinity)) distance.set(next.join(), viaNode);
+    }
+  }
+}
+
+// A carved maze with some walls knocked out and some expensive cells
+function loopyMaze(topology: Topology): TopologyMaze {
+  const maze = carveTopologyMaze(topology, WIDTH, HEIGHT, 0, 0, 0.3);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) if ((x * 7 + y * 3) % 5 === 0) maze[y][x].cost = 4;
+  }
+  return maze;
+}
+
+describe('topologies', () => {
+  it('agree with their neighbours on which sides they share', () => {
+    for (const topology of getTopologies()) {
+      for (let y = 0; y < HEIGHT; y++) {
+        for (let x = 0; x < WIDTH; x++) {
+          topology.directions.forEach((_, direction) => {
+            const next = topology.neighbour(x, y, direction);
+            if (!next) return;
+            assert.deepEqual(topology.neighbour(next[0], next[1], topology.opposite(direction)), [x, y], `${topology.id} (${x}, ${y}) ${topology.directions[direction]}`);
+          });
+        }
+      }
+    }
+  });
+
+  it('measure the fewest moves across an open grid', () => {
+    for (const topology of getTopologies()) {
+      const maze = carveTopologyMaze(topology, WIDTH, HEIGHT, 0, 0);
+      for (let y = 0; y < HEIGHT; y++) {
+        for (let x = 0; x < WIDTH; x++) topology.directions.forEach((_, d) => setTopologyWall(topology, maze, x, y, d, false));
+      }
+      const graph = new TopologyGraph(topology, maze);
+      for (const [x, y] of [[0, 0], [1, 0], [4, 3], [8, 6]]) {
+        for (let endY = 0; endY < HEIGHT; endY++) {
+          for (let endX = 0; endX < WIDTH; endX++) {
+            const fewest = searchGraph(graph, [x, y], [endX, endY], 'BFS').path.length;
+            assert.equal(topology.distance(x, y, endX, endY), fewest, `${topology.id} (${x}, ${y}) to (${endX}, ${endY})`);
+          }
+        }
+      }
+    }
+  });
+
+  it('carve a perfect maze: every cell reachable, with no loops', () => {
+    for (const topology of getTopologies()) {
+      const maze = carveTopologyMaze(topology, WIDTH, HEIGHT, 3, 2);
+      const graph = new TopologyGraph(topology, maze);
+      assert.equal(reachable(graph, [0, 0]).size, WIDTH * HEIGHT, topology.id);
+      let passages = 0;
+      for (let y = 0; y < HEIGHT; y++) {
+        for (let x = 0; x < WIDTH; x++) passages += graph.neighbours([x, y]).length;
+      }
+      assert.equal(passages / 2, WIDTH * HEIGHT - 1, `${topology.id} has a loop`);
+    }
+  });
+});
+
+describe('searches on shaped mazes', () => {
+  it('find the cheapest route with the optimal methods, and a route with every method', () => {
+    for (const topology of getTopologies()) {
+      for (let round = 0; round < 3; round++) {
+        const maze = loopyMaze(topology);
+        const graph = new TopologyGraph(topology, maze);
+        const expected = cheapestCost(graph, START, EXIT);
+        for (const method of getSearchMethods()) {
+          const result = searchGraph(graph, START, EXIT, method);
+          assert.equal(result.found, true, `${method} on ${topology.id}`);
+          let at = START;
+          for (const next of result.path) {
+            assert.ok(graph.neighbours(at).some(cell => cell.join() === next.join()), `${method} on ${topology.id} jumps from (${at}) to (${next})`);
+            at = next;
+          }
+        }
+        for (const method of ['DIJKSTRA', 'ASTAR', 'IDA_STAR', 'BIDIRECTIONAL_ASTAR'] as const) {
+          assert.equal(searchGraph(graph, START, EXIT, method).stats.pathCost, expected, `${method} on ${topology.id}`);
+        }
+      }
+    }
+  });
+
+  it('run through searchTopologyAsync with the same result', async () => {
+    for (const topology of getTopologies()) {
+      const maze = loopyMaze(topology);
+      const result = await searchTopologyAsync(topology.id, 0, 0, 8, 6, 'ASTAR', maze);
+      assert.deepEqual(result.path, searchGraph(new TopologyGraph(topology, maze), START, EXIT, 'ASTAR').path, topology.id);
+    }
+  });
+});
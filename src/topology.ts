@@ -0,0 +1,304 @@
+/**
+ * @fileOverview Maze cell shapes other than the classic square: hexagons and triangles, with their
+ * geometry, maze generation and a Graph adapter for pathfinder.ts.
+ *
+ * - registerTopology - Adds (or replaces) a cell shape in the registry.
+ * - getTopologies - Returns every registered shape, for dynamic UI generation.
+ * - getTopology - Looks up a shape by id, falling back to DEFAULT_TOPOLOGY.
+ * - carveTopologyMaze - Generates a maze with the recursive backtracker, plus optional loops.
+ * - setTopologyWall - Opens or closes the wall between a cell and one of its neighbours, on both sides.
+ * - TopologyGraph - Graph over a TopologyMaze, for searchGraph.
+ * - DEFAULT_TOPOLOGY - Id of the square grid.
+ * - Topology - Interface for a registry entry.
+ * - TopologyCell / TopologyMaze - A cell with one wall per direction of its shape, and a grid of them.
+ *
+ * Every shape lays its cells out on a `width` x `height` grid of (x, y) positions, so starts, exits and
+ * players keep using plain coordinates. A cell has one wall per entry of `directions`; triangles only
+ * have three of their four directions (N or S depending on which way they point), and `neighbour`
+ * returns null for the missing one.
+ */
+
+import type { Graph } from '@/graph';
+
+/**
+ * A cell with one wall per direction of its topology.
+ */
+export interface TopologyCell {
+  walls: boolean[]; // indexed like Topology.directions; true if closed
+  cost?: number;    // movement cost of entering this cell, 1 when omitted
+}
+
+export type TopologyMaze = TopologyCell[][];
+
+/**
+ * A cell shape. Geometry methods take the pixel `size` of a cell, its width for squares and hexagons.
+ */
+export interface Topology {
+  id: string;
+  label: string;
+  description: string;
+  directions: string[]; // compass names of the sides, e.g. ['E', 'SE', ...]
+  neighbour(x: number, y: number, direction: number): [number, number] | null; // ignores the grid bounds
+  opposite(direction: number): number; // the neighbour's side facing back
+  distance(x: number, y: number, endX: number, endY: number): number; // fewest moves on an open grid
+  center(x: number, y: number, size: number): [number, number];
+  outline(x: number, y: number, size: number): [number, number][];
+  side(x: number, y: number, direction: number, size: number): [[number, number], [number, number]] | null;
+  canvasSize(width: number, height: number, size: number): [number, number];
+}
+
+/**
+ * Id of the square grid, the shape used when none is chosen.
+ */
+export const DEFAULT_TOPOLOGY = 'square';
+
+const registry = new Map<string, Topology>();
+
+/**
+ * Adds a cell shape to the registry, replacing any entry with the same id.
+ */
+export function registerTopology(topology: Topology): void {
+  registry.set(topology.id, topology);
+}
+
+/**
+ * Returns the registered cell shapes, in registration order.
+ */
+export function getTopologies(): Topology[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Looks up a cell shape. Unknown ids fall back to DEFAULT_TOPOLOGY.
+ */
+export function getTopology(id: string): Topology {
+  return registry.get(id) ?? registry.get(DEFAULT_TOPOLOGY)!;
+}
+
+/**
+ * Returns the neighbour of (x, y) in `direction`, or null if that side has no cell inside the grid.
+ */
+function neighbourWithin(topology: Topology, width: number, height: number, x: number, y: number, direction: number): [number, number] | null {
+  const next = topology.neighbour(x, y, direction);
+  if (!next || next[0] < 0 || next[0] >= width || next[1] < 0 || next[1] >= height) return null;
+  return next;
+}
+
+/**
+ * Opens or closes the wall on `direction` of (x, y) and the matching wall of the neighbour.
+ */
+export function setTopologyWall(topology: Topology, maze: TopologyMaze, x: number, y: number, direction: number, closed: boolean): void {
+  const next = neighbourWithin(topology, maze[0].length, maze.length, x, y, direction);
+  if (!next) return;
+  maze[y][x].walls[direction] = closed;
+  maze[next[1]][next[0]].walls[topology.opposite(direction)] = closed;
+}
+
+/**
+ * Generates a maze: an iterative recursive backtracker from (startX, startY), then `loops` * cells
+ * random walls removed so there is more than one route.
+ * @param topology Cell shape.
+ * @param width    Cells per row.
+ * @param height   Rows.
+ * @param startX   Column the carving starts from.
+ * @param startY   Row the carving starts from.
+ * @param loops    Walls to remove afterwards, as a fraction of the cell count.
+ * @param random   Source of random numbers in [0, 1), e.g. a seeded one from lib/random.ts.
+ * @returns         The maze, every cell reachable from every other.
+ */
+export function carveTopologyMaze(topology: Topology, width: number, height: number, startX: number, startY: number, loops = 0, random: () => number = Math.random): TopologyMaze {
+  const directionCount = topology.directions.length;
+  const maze: TopologyMaze = Array.from({ length: height }, () =>
+    Array.from({ length: width }, () => ({ walls: Array<boolean>(directionCount).fill(true) }))
+  );
+  const visited = new Uint8Array(width * height);
+  const stack: [number, number][] = [[startX, startY]];
+  visited[startY * width + startX] = 1;
+
+  while (stack.length > 0) {
+    const [x, y] = stack[stack.length - 1];
+    const options: number[] = [];
+    for (let d = 0; d < directionCount; d++) {
+      const next = neighbourWithin(topology, width, height, x, y, d);
+      if (next && !visited[next[1] * width + next[0]]) options.push(d);
+    }
+    if (options.length === 0) {
+      stack.pop();
+      continue;
+    }
+    const direction = options[Math.floor(random() * options.length)];
+    const [nx, ny] = topology.neighbour(x, y, direction)!;
+    setTopologyWall(topology, maze, x, y, direction, false);
+    visited[ny * width + nx] = 1;
+    stack.push([nx, ny]);
+  }
+
+  const wallsToRemove = Math.floor(width * height * loops);
+  for (let removed = 0, attempts = 0; removed < wallsToRemove && attempts < wallsToRemove * 10; attempts++) {
+    const x = Math.floor(random() * width);
+    const y = Math.floor(random() * height);
+    const direction = Math.floor(random() * directionCount);
+    if (!maze[y][x].walls[direction] || !neighbourWithin(topology, width, height, x, y, direction)) continue;
+    setTopologyWall(topology, maze, x, y, direction, false);
+    removed++;
+  }
+  return maze;
+}
+
+/**
+ * A TopologyMaze as a Graph over [x, y] cells. Moving into a cell costs its `cost`, and the heuristic
+ * is the shape's open-grid distance scaled by the cheapest cell, so it stays admissible.
+ */
+export class TopologyGraph implements Graph<[number, number]> {
+  readonly size: number;
+  private readonly width: number;
+  private readonly minCost: number;
+
+  constructor(private readonly topology: Topology, private readonly maze: TopologyMaze) {
+    this.width = maze[0].length;
+    this.size = this.width * maze.length;
+    let minCost = Infinity;
+    for (const row of maze) {
+      for (const cell of row) minCost = Math.min(minCost, cell.cost ?? 1);
+    }
+    this.minCost = minCost;
+  }
+
+  key([x, y]: [number, number]): number {
+    return y * this.width + x;
+  }
+
+  node(key: number): [number, number] {
+    return [key % this.width, Math.floor(key / this.width)];
+  }
+
+  neighbours([x, y]: [number, number]): [number, number][] {
+    const result: [number, number][] = [];
+    const walls = this.maze[y][x].walls;
+    for (let d = 0; d < walls.length; d++) {
+      if (walls[d]) continue;
+      const next = neighbourWithin(this.topology, this.width, this.maze.length, x, y, d);
+      if (next) result.push(next);
+    }
+    return result;
+  }
+
+  cost(from: [number, number], [x, y]: [number, number]): number {
+    return this.maze[y][x].cost ?? 1;
+  }
+
+  heuristic([x, y]: [number, number], [endX, endY]: [number, number]): number {
+    return this.minCost * this.topology.distance(x, y, endX, endY);
+  }
+
+  position(node: [number, number]): [number, number] {
+    return node;
+  }
+}
+
+// Pointy-top hexagons with odd rows shifted half a cell right; side d joins corners d and d + 1
+const HEX_DIRECTIONS = ['E', 'SE', 'SW', 'W', 'NW', 'NE'];
+// [dx on even rows, dx on odd rows, dy] per direction: diagonal moves keep x on the side the row is shifted towards
+const HEX_OFFSETS = [[1, 1, 0], [0, 1, 1], [-1, 0, 1], [-1, -1, 0], [-1, 0, -1], [0, 1, -1]];
+
+function hexCorners(x: number, y: number, size: number): [number, number][] {
+  const radius = size / Math.sqrt(3);
+  const cx = (x + 0.5 + (y & 1) / 2) * size;
+  const cy = radius * (1 + 1.5 * y);
+  return Array.from({ length: 6 }, (_, k) => {
+    const angle = ((60 * k - 30) * Math.PI) / 180;
+    return [cx + radius * Math.cos(angle), cy + radius * Math.sin(angle)];
+  });
+}
+
+registerTopology({
+  id: 'square',
+  label: 'Square',
+  description: 'Classic grid of square cells with four walls.',
+  directions: ['N', 'E', 'S', 'W'],
+  neighbour: (x, y, d) => [x + [0, 1, 0, -1][d], y + [-1, 0, 1, 0][d]],
+  opposite: d => (d + 2) % 4,
+  distance: (x, y, endX, endY) => Math.abs(x - endX) + Math.abs(y - endY),
+  center: (x, y, size) => [(x + 0.5) * size, (y + 0.5) * size],
+  outline: (x, y, size) => [[x * size, y * size], [(x + 1) * size, y * size], [(x + 1) * size, (y + 1) * size], [x * size, (y + 1) * size]],
+  side: (x, y, d, size) => {
+    const corners: [number, number][] = [[x * size, y * size], [(x + 1) * size, y * size], [(x + 1) * size, (y + 1) * size], [x * size, (y + 1) * size]];
+    return [corners[d], corners[(d + 1) % 4]];
+  },
+  canvasSize: (width, height, size) => [width * size, height * size],
+});
+
+registerTopology({
+  id: 'hex',
+  label: 'Hexagonal',
+  description: 'Hexagonal cells with six neighbours each.',
+  directions: HEX_DIRECTIONS,
+  neighbour: (x, y, d) => [x + HEX_OFFSETS[d][y & 1], y + HEX_OFFSETS[d][2]],
+  opposite: d => (d + 3) % 6,
+  distance: (x, y, endX, endY) => {
+    // Offset rows to axial coordinates, where the hex distance is half the cube-coordinate Manhattan distance
+    const q = x - (y - (y & 1)) / 2;
+    const endQ = endX - (endY - (endY & 1)) / 2;
+    const dq = q - endQ;
+    const dr = y - endY;
+    return (Math.abs(dq) + Math.abs(dr) + Math.abs(dq + dr)) / 2;
+  },
+  center: (x, y, size) => [(x + 0.5 + (y & 1) / 2) * size, (size / Math.sqrt(3)) * (1 + 1.5 * y)],
+  outline: hexCorners,
+  side: (x, y, d, size) => {
+    const corners = hexCorners(x, y, size);
+    return [corners[d], corners[(d + 1) % 6]];
+  },
+  canvasSize: (width, height, size) => [(width + 0.5) * size, (size / Math.sqrt(3)) * (1.5 * height + 0.5)],
+});
+
+// Triangles alternate pointing up and down along each row; (x + y) even points up. They are 1.5 cells
+// wide so a player marker still fits inside.
+const TRIANGLE_SCALE = 1.5;
+
+function triangleCorners(x: number, y: number, size: number): [number, number][] {
+  const half = (TRIANGLE_SCALE * size) / 2;
+  const rowHeight = half * Math.sqrt(3);
+  const left = x * half;
+  const top = y * rowHeight;
+  return (x + y) % 2 === 0
+    ? [[left, top + rowHeight], [left + half, top], [left + 2 * half, top + rowHeight]] // bottom-left, apex, bottom-right
+    : [[left, top], [left + 2 * half, top], [left + half, top + rowHeight]];            // top-left, top-right, apex
+}
+
+registerTopology({
+  id: 'triangle',
+  label: 'Triangular',
+  description: 'Triangular cells with three neighbours each, alternately pointing up and down.',
+  directions: ['N', 'E', 'S', 'W'],
+  neighbour: (x, y, d) => {
+    const up = (x + y) % 2 === 0;
+    if ((d === 0 && up) || (d === 2 && !up)) return null; // Only the flat side has a vertical neighbour
+    return [x + [0, 1, 0, -1][d], y + [-1, 0, 1, 0][d]];
+  },
+  opposite: d => (d + 2) % 4,
+  distance: (x, y, endX, endY) => {
+    // Every move changes x or y by one, and two vertical moves in the same direction need a
+    // sideways move between them to turn the triangle around (before the first one too, if the start
+    // points the wrong way). Every move flips the triangle, which fixes the parity of the count
+    const dx = Math.abs(x - endX);
+    const dy = Math.abs(y - endY);
+    if (dy === 0) return dx;
+    const facesEnd = ((x + y) % 2 === 0) === (endY > y); // an up triangle can only move down
+    const moves = Math.max(dx + dy, 2 * dy - (facesEnd ? 1 : 0));
+    return (moves - dx - dy) % 2 === 0 ? moves : moves + 1;
+  },
+  center: (x, y, size) => {
+    const corners = triangleCorners(x, y, size);
+    return [(corners[0][0] + corners[1][0] + corners[2][0]) / 3, (corners[0][1] + corners[1][1] + corners[2][1]) / 3];
+  },
+  outline: triangleCorners,
+  side: (x, y, d, size) => {
+    const [a, b, c] = triangleCorners(x, y, size);
+    const sides: ([[number, number], [number, number]] | null)[] = (x + y) % 2 === 0
+      ? [null, [b, c], [c, a], [a, b]]  // pointing up: no north side
+      : [[a, b], [b, c], null, [c, a]]; // pointing down: no south side
+    return sides[d];
+  },
+  canvasSize: (width, height, size) => [((width + 1) * TRIANGLE_SCALE * size) / 2, (height * TRIANGLE_SCALE * size * Math.sqrt(3)) / 2],
+});